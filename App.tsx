@@ -8,10 +8,12 @@ import { Subscription } from './pages/Subscription';
 import { Landing } from './pages/Landing';
 import { AdminPanel } from './pages/AdminPanel';
 import { FMCSARegister } from './pages/FMCSARegister';
+import { CarrierAlerts } from './pages/CarrierAlerts';
 import { ViewState, User, CarrierData } from './types';
 import { Settings as SettingsIcon } from 'lucide-react';
 import { MOCK_USERS } from './services/mockService';
-import { fetchCarriersFromSupabase, CarrierFilters } from './services/supabaseClient';
+import { fetchCarrierPage, fetchCarriersFromSupabase, CarrierFilters } from './services/supabaseClient';
+import { getUnacknowledgedAlertCount } from './services/carrierAlertService';
 
 // Extracted Settings component to keep the main App clean.
 const SettingsPage: React.FC = () => (
@@ -30,14 +32,18 @@ const App: React.FC = () => {
   const [autoStartInsurance, setAutoStartInsurance] = useState(false);
   const [allCarriers, setAllCarriers] = useState<CarrierData[]>([]);
   const [isLoadingCarriers, setIsLoadingCarriers] = useState(false);
+  const [totalCarriers, setTotalCarriers] = useState(0);
+  const [focusedCarrierDot, setFocusedCarrierDot] = useState<string | null>(null);
+  const [alertCount, setAlertCount] = useState(0);
 
-  // Load default 200 carriers from Supabase on mount
+  // Load the first page of carriers from Supabase on mount
   useEffect(() => {
     const loadCarriers = async () => {
       try {
         setIsLoadingCarriers(true);
-        const carriers = await fetchCarriersFromSupabase({});
-        setAllCarriers(carriers || []);
+        const page = await fetchCarrierPage({});
+        setAllCarriers(page.carriers);
+        setTotalCarriers(page.total);
       } catch (error) {
         console.error("Failed to fetch carriers:", error);
       } finally {
@@ -45,13 +51,19 @@ const App: React.FC = () => {
       }
     };
     loadCarriers();
+    refreshAlertCount();
   }, []);
 
+  const refreshAlertCount = async () => {
+    setAlertCount(await getUnacknowledgedAlertCount());
+  };
+
   const handleCarrierSearch = async (filters: CarrierFilters) => {
     try {
       setIsLoadingCarriers(true);
-      const carriers = await fetchCarriersFromSupabase(filters);
-      setAllCarriers(carriers || []);
+      const page = await fetchCarrierPage(filters);
+      setAllCarriers(page.carriers);
+      setTotalCarriers(page.total);
     } catch (error) {
       console.error("Failed to fetch carriers with filters:", error);
     } finally {
@@ -85,8 +97,9 @@ const App: React.FC = () => {
 
   const handleNewCarriers = (newData: CarrierData[]) => {
     setAllCarriers(prev => {
-      const existingMcs = new Set(prev.map(c => c.mcNumber));
-      const filteredNew = newData.filter(c => !existingMcs.has(c.mcNumber));
+      // Keyed by USDOT number, since DOT-only carriers have no MC number
+      const existingKeys = new Set(prev.map(c => c.dotNumber || c.mcNumber));
+      const filteredNew = newData.filter(c => !existingKeys.has(c.dotNumber || c.mcNumber));
       return [...filteredNew, ...prev];
     });
   };
@@ -95,6 +108,21 @@ const App: React.FC = () => {
     setAllCarriers(updatedData);
   };
 
+  // Open a carrier from the FMCSA Register in the Carrier Search detail view
+  const handleOpenCarrier = async (mcNumber: string) => {
+    try {
+      const matches = await fetchCarriersFromSupabase({ mcNumber });
+      const carrier = matches.find(c => c.mcNumber === mcNumber);
+      if (!carrier) return;
+
+      setAllCarriers(prev => [carrier, ...prev.filter(c => c.mcNumber !== mcNumber)]);
+      setFocusedCarrierDot(carrier.dotNumber);
+      setCurrentView('carrier-search');
+    } catch (error) {
+      console.error("Failed to open carrier:", error);
+    }
+  };
+
   const handleScraperFinish = () => {
     setAutoStartInsurance(true);
     setCurrentView('insurance-scraper');
@@ -109,6 +137,7 @@ const App: React.FC = () => {
       return;
     }
 
+    setFocusedCarrierDot(null);
     if (view !== 'insurance-scraper') {
       setAutoStartInsurance(false);
     }
@@ -137,13 +166,17 @@ const App: React.FC = () => {
         return (
           <CarrierSearch 
             carriers={allCarriers}
+            totalCarriers={totalCarriers}
             onSearch={handleCarrierSearch}
             isLoading={isLoadingCarriers}
+            focusedDotNumber={focusedCarrierDot}
             onNavigateToInsurance={() => { if(isAdmin) setCurrentView('insurance-scraper'); }} 
           />
         );
       case 'fmcsa-register':
-        return <FMCSARegister />;
+        return <FMCSARegister onOpenCarrier={handleOpenCarrier} onAlertsChanged={refreshAlertCount} />;
+      case 'carrier-alerts':
+        return <CarrierAlerts onOpenCarrier={handleOpenCarrier} onAlertsChanged={refreshAlertCount} />;
       case 'insurance-scraper':
         return (
           <InsuranceScraper 
@@ -174,6 +207,7 @@ const App: React.FC = () => {
         setCurrentView={handleViewChange} 
         user={user}
         onLogout={handleLogout}
+        alertCount={alertCount}
       />
       
       <main className="flex-1 ml-64 relative bg-[url('https://grainy-gradients.vercel.app/noise.svg')] bg-opacity-20 h-screen overflow-hidden">
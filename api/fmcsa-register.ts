@@ -1,67 +1,5 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-
-// Helper function to format date as DD-MMM-YY
-function formatDateForFMCSA(date: Date): string {
-  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
-  const day = String(date.getDate()).padStart(2, '0');
-  const month = months[date.getMonth()];
-  const year = String(date.getFullYear()).slice(-2);
-  return `${day}-${month}-${year}`;
-}
-
-// Enhanced categorization function
-function categorizeEntry(text: string, contextBefore: string, contextAfter: string): string {
-  const fullContext = (contextBefore + ' ' + text + ' ' + contextAfter).toUpperCase();
-  
-  // Define category patterns with keywords - order matters, more specific first
-  const categoryPatterns: Array<{ name: string; keywords: string[] }> = [
-    {
-      name: 'NAME CHANGE',
-      keywords: ['NAME CHANGE', 'NAME CHANGES', 'CHANGE OF NAME']
-    },
-    {
-      name: 'CERTIFICATE OF REGISTRATION',
-      keywords: ['CERTIFICATE OF REGISTRATION', 'CERTIFICATES OF REGISTRATION']
-    },
-    {
-      name: 'CERTIFICATE, PERMIT, LICENSE',
-      keywords: ['CERTIFICATE, PERMIT', 'CERTIFICATES, PERMITS', 'LICENSES', 'CERTIFICATE, PERMIT, LICENSE']
-    },
-    {
-      name: 'GRANT DECISION NOTICES',
-      keywords: ['GRANT DECISION NOTICE', 'GRANT DECISION NOTICES', 'GRANT DECISIONS']
-    },
-    {
-      name: 'DISMISSAL',
-      keywords: ['DISMISSAL', 'DISMISSALS', 'DISMISSED']
-    },
-    {
-      name: 'WITHDRAWAL',
-      keywords: ['WITHDRAWAL', 'WITHDRAWAL OF APPLICATION', 'WITHDRAWN']
-    },
-    {
-      name: 'REVOCATION',
-      keywords: ['REVOCATION', 'REVOCATIONS', 'REVOKED']
-    },
-    {
-      name: 'TRANSFERS',
-      keywords: ['TRANSFER', 'TRANSFERS', 'TRANSFERRED']
-    }
-  ];
-
-  // Check each category pattern
-  for (const pattern of categoryPatterns) {
-    for (const keyword of pattern.keywords) {
-      if (fullContext.includes(keyword)) {
-        return pattern.name;
-      }
-    }
-  }
-
-  return 'MISCELLANEOUS';
-}
+import { formatDateForFMCSA, scrapeRegister } from '../server/fmcsaRegister';
 
 export default async (req: VercelRequest, res: VercelResponse) => {
   // Enable CORS
@@ -85,25 +23,9 @@ export default async (req: VercelRequest, res: VercelResponse) => {
   try {
     const { date } = req.body;
     const registerDate = date || formatDateForFMCSA(new Date());
-    const registerUrl = 'https://li-public.fmcsa.dot.gov/LIVIEW/PKG_register.prc_reg_detail';
-    
-    const params = new URLSearchParams();
-    params.append('pd_date', registerDate);
-    params.append('pv_vpath', 'LIVIEW');
-
-    const response = await axios.post(registerUrl, params.toString(), {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Referer': 'https://li-public.fmcsa.dot.gov/LIVIEW/PKG_REGISTER.prc_reg_list',
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Origin': 'https://li-public.fmcsa.dot.gov'
-      },
-      timeout: 60000,
-    });
+    const result = await scrapeRegister(registerDate);
 
-    if (!response.data.toUpperCase().includes('FMCSA REGISTER')) {
+    if (!result) {
       return res.status(400).json({
         success: false,
         error: 'Invalid response from FMCSA',
@@ -111,45 +33,16 @@ export default async (req: VercelRequest, res: VercelResponse) => {
       });
     }
 
-    const $ = cheerio.load(response.data);
-    const rawText = $.text();
-    const pattern = /((?:MC|FF|MX|MX-MC)-\d+)\s+([\s\S]*?)\s+(\d{2}\/\d{2}\/\d{4})/g;
-    
-    const entries: Array<{ number: string; title: string; decided: string; category: string }> = [];
-    let match;
-
-    while ((match = pattern.exec(rawText)) !== null) {
-      const docket = match[1];
-      const title = match[2].replace(/\s+/g, ' ').trim();
-      const decidedDate = match[3];
-
-      if (title.length > 500) continue;
-
-      const beforeIndex = match.index;
-      const contextBefore = rawText.substring(Math.max(0, beforeIndex - 3000), beforeIndex);
-      const contextAfter = rawText.substring(beforeIndex + match[0].length, Math.min(rawText.length, beforeIndex + match[0].length + 1000));
-      
-      // Use enhanced categorization
-      const category = categorizeEntry(title, contextBefore, contextAfter);
-
-      entries.push({
-        number: docket,
-        title,
-        decided: decidedDate,
-        category
-      });
-    }
-
-    const uniqueEntries = entries.filter((entry, index, self) =>
-      index === self.findIndex((e) => e.number === entry.number && e.title === entry.title)
-    );
+    const { entries, sectionCounts, unplaced } = result;
 
     return res.status(200).json({
       success: true,
-      count: uniqueEntries.length,
+      count: entries.length,
       date: registerDate,
       lastUpdated: new Date().toISOString(),
-      entries: uniqueEntries
+      sectionCounts,
+      unplaced,
+      entries
     });
 
   } catch (error: any) {
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { fetchRegisterDayStatus, FMCSARegisterDay } from '../services/fmcsaRegisterService';
+
+interface RegisterCoverageCalendarProps {
+  selectedDate: string;               // YYYY-MM-DD
+  onSelectDate: (date: string) => void;
+  refreshKey?: number;                // bump to reload statuses
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toIsoDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const statusStyles: Record<string, string> = {
+  success: 'bg-green-500/20 text-green-300 border-green-500/40',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/40',
+  empty: 'bg-slate-700/30 text-slate-400 border-slate-600/40',
+};
+
+export const RegisterCoverageCalendar: React.FC<RegisterCoverageCalendarProps> = ({ selectedDate, onSelectDate, refreshKey }) => {
+  const [year, setYear] = useState(() => parseInt(selectedDate.slice(0, 4)));
+  const [month, setMonth] = useState(() => parseInt(selectedDate.slice(5, 7)) - 1);
+  const [days, setDays] = useState<Record<string, FMCSARegisterDay>>({});
+
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+
+  useEffect(() => {
+    const load = async () => {
+      const rows = await fetchRegisterDayStatus(toIsoDate(year, month, 1), toIsoDate(year, month, daysInMonth));
+      const byDate: Record<string, FMCSARegisterDay> = {};
+      rows.forEach(row => { byDate[row.register_date] = row; });
+      setDays(byDate);
+    };
+    load();
+  }, [year, month, refreshKey]);
+
+  const shiftMonth = (delta: number) => {
+    const next = new Date(Date.UTC(year, month + delta, 1));
+    setYear(next.getUTCFullYear());
+    setMonth(next.getUTCMonth());
+  };
+
+  const weekdayCount = Array.from({ length: daysInMonth }, (_, i) => (firstWeekday + i) % 7).filter(d => d !== 0 && d !== 6).length;
+  const coveredCount = (Object.values(days) as FMCSARegisterDay[]).filter(d => d.status === 'success').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button onClick={() => shiftMonth(-1)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+          <ChevronLeft size={16} />
+        </button>
+        <div className="text-center">
+          <p className="text-sm font-bold text-white">
+            {new Date(Date.UTC(year, month, 1)).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+          </p>
+          <p className="text-[10px] text-slate-500 font-mono">{coveredCount} / {weekdayCount} register days stored</p>
+        </div>
+        <button onClick={() => shiftMonth(1)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map(d => (
+          <span key={d} className="text-[9px] text-slate-600 uppercase font-bold tracking-wider py-1">{d}</span>
+        ))}
+        {Array.from({ length: firstWeekday }, (_, i) => <span key={`pad-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const date = toIsoDate(year, month, i + 1);
+          const weekday = (firstWeekday + i) % 7;
+          const isWeekend = weekday === 0 || weekday === 6;
+          const day = days[date];
+          const isSelected = date === selectedDate;
+
+          return (
+            <button
+              key={date}
+              disabled={isWeekend}
+              onClick={() => onSelectDate(date)}
+              title={day ? `${day.status.toUpperCase()} · ${day.entry_count} entries${day.error ? ` · ${day.error}` : ''}` : isWeekend ? 'No register on weekends' : 'Not fetched'}
+              className={`text-xs font-mono py-1.5 rounded-md border transition-all ${
+                isWeekend
+                  ? 'text-slate-700 border-transparent cursor-default'
+                  : day
+                    ? statusStyles[day.status]
+                    : 'text-slate-400 border-slate-800 hover:border-slate-600'
+              } ${isSelected ? 'ring-2 ring-indigo-500' : ''}`}
+            >
+              {i + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3 mt-3 text-[10px] text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-green-500/60" /> Stored</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-500/60" /> Failed</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-slate-600" /> No register</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm border border-slate-700" /> Not fetched</span>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutDashboard, Truck, CreditCard, Settings, Terminal, LogOut, ShieldAlert, Database, ShieldCheck, FileText } from 'lucide-react';
+import { LayoutDashboard, Truck, CreditCard, Settings, Terminal, LogOut, ShieldAlert, Database, ShieldCheck, FileText, BellRing } from 'lucide-react';
 import { ViewState, User } from '../types';
 
 interface SidebarProps {
@@ -7,9 +7,10 @@ interface SidebarProps {
   setCurrentView: (view: ViewState) => void;
   user: User;
   onLogout: () => void;
+  alertCount?: number;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, user, onLogout }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, user, onLogout, alertCount = 0 }) => {
   const isAdmin = user.role === 'admin';
 
   // Define all navigation items
@@ -18,6 +19,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, u
     { id: 'scraper', label: 'Live Scraper', icon: Terminal, adminOnly: true },
     { id: 'carrier-search', label: 'Carrier Database', icon: Database, adminOnly: false },
     { id: 'fmcsa-register', label: 'FMCSA Register', icon: FileText, adminOnly: false },
+    { id: 'carrier-alerts', label: 'Carrier Alerts', icon: BellRing, adminOnly: false },
     { id: 'insurance-scraper', label: 'Insurance Scraper', icon: ShieldCheck, adminOnly: true },
     { id: 'subscription', label: 'Subscription', icon: CreditCard, adminOnly: false },
     { id: 'settings', label: 'Settings', icon: Settings, adminOnly: true },
@@ -69,6 +71,11 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, u
               {item.id === 'scraper' && isAdmin && (
                 <span className="ml-auto w-2 h-2 rounded-full bg-green-500 animate-pulse relative z-10"></span>
               )}
+              {item.id === 'carrier-alerts' && alertCount > 0 && (
+                <span className="ml-auto bg-gradient-to-r from-red-500 to-red-600 text-white text-[10px] px-2 py-0.5 rounded-full font-bold relative z-10 shadow-lg shadow-red-900/30">
+                  {alertCount > 99 ? '99+' : alertCount}
+                </span>
+              )}
               {item.id === 'admin' && (
                 <span className="ml-auto bg-gradient-to-r from-red-500 to-red-600 text-white text-[10px] px-2 py-0.5 rounded-full font-bold relative z-10 shadow-lg shadow-red-900/30">ADM</span>
               )}
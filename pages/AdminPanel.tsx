@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Users, Activity, DollarSign, Server, Edit2, Save, X, Search, Ban, UserPlus, Shield, Trash2, CheckCircle, RefreshCw } from 'lucide-react';
-import { User, BlockedIP } from '../types';
+import { Users, Activity, DollarSign, Server, Edit2, Save, X, Search, Ban, UserPlus, Shield, Trash2, CheckCircle, RefreshCw, Globe } from 'lucide-react';
+import { User, BlockedIP, ProxyStatus } from '../types';
 import { 
   fetchUsersFromSupabase, 
   createUserInSupabase, 
@@ -10,6 +10,7 @@ import {
   blockIPInSupabase,
   unblockIPInSupabase
 } from '../services/userService';
+import { fetchProxyStatuses, refreshProxies } from '../services/backendService';
 
 export const AdminPanel: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
@@ -17,7 +18,7 @@ export const AdminPanel: React.FC = () => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<User>>({});
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'users' | 'blocked' | 'add'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'blocked' | 'add' | 'proxies'>('users');
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
@@ -32,11 +33,21 @@ export const AdminPanel: React.FC = () => {
   const [blockIpAddress, setBlockIpAddress] = useState('');
   const [blockReason, setBlockReason] = useState('');
 
+  // Proxy pool state from the backend
+  const [proxies, setProxies] = useState<ProxyStatus[]>([]);
+  const [isCheckingProxies, setIsCheckingProxies] = useState(false);
+
   // Load data from Supabase on mount
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'proxies') {
+      fetchProxyStatuses().then(setProxies);
+    }
+  }, [activeTab]);
+
   const loadData = async () => {
     setIsLoading(true);
     try {
@@ -142,6 +153,20 @@ export const AdminPanel: React.FC = () => {
     setIsSaving(false);
   };
 
+  const handleRefreshProxies = async (action: 'health-check' | 'reload') => {
+    setIsCheckingProxies(true);
+    const result = await refreshProxies(action);
+
+    if (result) {
+      setProxies(result);
+      showMessage('success', action === 'reload' ? `Proxy pool reloaded (${result.length} proxies)` : 'Proxy health check finished');
+    } else {
+      showMessage('error', 'Failed to reach the backend proxy pool');
+    }
+
+    setIsCheckingProxies(false);
+  };
+
   const handleAddUser = async () => {
     if (!newUserName.trim() || !newUserEmail.trim()) {
       showMessage('error', 'Name and email are required');
@@ -314,6 +339,17 @@ export const AdminPanel: React.FC = () => {
           <UserPlus className="w-4 h-4 inline mr-2" />
           Add User
         </button>
+        <button
+          onClick={() => setActiveTab('proxies')}
+          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'proxies' 
+              ? 'bg-indigo-600 text-white' 
+              : 'text-slate-400 hover:text-white hover:bg-slate-800'
+          }`}
+        >
+          <Globe className="w-4 h-4 inline mr-2" />
+          Proxies
+        </button>
       </div>
 
       {/* Users Tab */}
@@ -622,6 +658,86 @@ export const AdminPanel: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Proxies Tab */}
+      {activeTab === 'proxies' && (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-2xl overflow-hidden">
+          <div className="p-6 border-b border-slate-700 flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-bold text-white">Proxy Pool ({proxies.filter(p => p.healthy).length}/{proxies.length} healthy)</h3>
+              <p className="text-xs text-slate-500 mt-1">Configured with PROXY_URLS on the server or rows in the proxies table.</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleRefreshProxies('health-check')}
+                disabled={isCheckingProxies}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                <Activity className="w-4 h-4" />
+                Health Check
+              </button>
+              <button
+                onClick={() => handleRefreshProxies('reload')}
+                disabled={isCheckingProxies}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${isCheckingProxies ? 'animate-spin' : ''}`} />
+                Reload
+              </button>
+            </div>
+          </div>
+          {proxies.length === 0 ? (
+            <div className="p-12 text-center text-slate-400">
+              <Server className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No proxies configured. The server connects to FMCSA directly.</p>
+            </div>
+          ) : (
+            <table className="w-full text-left text-sm text-slate-400">
+              <thead className="bg-slate-900 text-slate-200">
+                <tr>
+                  <th className="p-4 font-medium">Proxy</th>
+                  <th className="p-4 font-medium">Status</th>
+                  <th className="p-4 font-medium">Success / Failed</th>
+                  <th className="p-4 font-medium">Avg Latency</th>
+                  <th className="p-4 font-medium">Last Checked</th>
+                  <th className="p-4 font-medium">Last Error</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {proxies.map(proxy => {
+                  const attempts = proxy.successCount + proxy.failureCount;
+                  return (
+                    <tr key={proxy.id} className="hover:bg-slate-700/30 transition-colors">
+                      <td className="p-4">
+                        <div className="font-mono text-white">{proxy.label}</div>
+                        <div className="text-xs text-slate-500">{proxy.protocol.toUpperCase()} · {proxy.source === 'env' ? 'PROXY_URLS' : 'proxies table'}</div>
+                      </td>
+                      <td className="p-4">
+                        <span className={`px-2 py-1 rounded text-xs font-bold ${
+                          proxy.healthy ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                        }`}>
+                          {proxy.healthy ? 'HEALTHY' : 'DOWN'}
+                        </span>
+                      </td>
+                      <td className="p-4">
+                        <span className="text-green-400">{proxy.successCount}</span>
+                        {' / '}
+                        <span className="text-red-400">{proxy.failureCount}</span>
+                        {attempts > 0 && (
+                          <span className="text-xs text-slate-500 ml-2">({Math.round((proxy.successCount / attempts) * 100)}%)</span>
+                        )}
+                      </td>
+                      <td className="p-4">{proxy.avgLatencyMs !== null ? `${proxy.avgLatencyMs} ms` : '-'}</td>
+                      <td className="p-4">{proxy.lastCheckedAt ? new Date(proxy.lastCheckedAt).toLocaleString() : 'Never'}</td>
+                      <td className="p-4 text-xs max-w-xs truncate" title={proxy.lastError || ''}>{proxy.lastError || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
     </div>
   );
 };
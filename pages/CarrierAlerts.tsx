@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { BellRing, RefreshCw, CheckCheck, Check, ExternalLink, AlertCircle } from 'lucide-react';
+import { fetchCarrierAlerts, acknowledgeCarrierAlerts, CarrierAlert, ALERT_CATEGORIES } from '../services/carrierAlertService';
+
+interface CarrierAlertsProps {
+  onAlertsChanged?: () => void;
+  onOpenCarrier?: (mcNumber: string) => void;
+}
+
+const getAlertColor = (alertType: string) => {
+  const colors: { [key: string]: string } = {
+    'REVOCATION': 'bg-red-500/10 text-red-400 border-red-500/30',
+    'DISMISSAL': 'bg-orange-500/10 text-orange-400 border-orange-500/30',
+    'WITHDRAWAL': 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+  };
+  return colors[alertType] || 'bg-slate-500/10 text-slate-400 border-slate-500/30';
+};
+
+export const CarrierAlerts: React.FC<CarrierAlertsProps> = ({ onAlertsChanged, onOpenCarrier }) => {
+  const [alerts, setAlerts] = useState<CarrierAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [alertType, setAlertType] = useState<string>('all');
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+
+  const loadAlerts = async () => {
+    setIsLoading(true);
+    const data = await fetchCarrierAlerts({ alertType, includeAcknowledged: showAcknowledged });
+    setAlerts(data);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadAlerts();
+  }, [alertType, showAcknowledged]);
+
+  const acknowledge = async (ids?: string[]) => {
+    const result = await acknowledgeCarrierAlerts(ids);
+    if (result.success) {
+      await loadAlerts();
+      onAlertsChanged?.();
+    }
+  };
+
+  const openCount = alerts.filter(a => !a.acknowledged).length;
+
+  return (
+    <div className="p-6 h-screen flex flex-col overflow-hidden bg-slate-950 text-slate-200 font-sans">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <div className="p-2 bg-red-600/20 rounded-lg border border-red-500/30">
+              <BellRing className="text-red-500" size={28} />
+            </div>
+            Carrier Alerts
+          </h1>
+          <p className="text-slate-400 text-sm mt-1">Tracked carriers revoked, dismissed or withdrawn in the FMCSA Register</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => acknowledge()}
+            disabled={openCount === 0}
+            className="flex items-center gap-2 px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm font-semibold transition-all border border-slate-700 disabled:opacity-50"
+          >
+            <CheckCheck size={16} />
+            Acknowledge All
+          </button>
+          <button
+            onClick={loadAlerts}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-semibold transition-all shadow-lg shadow-indigo-900/20 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-3 mb-4">
+        {['all', ...ALERT_CATEGORIES].map(type => (
+          <button
+            key={type}
+            onClick={() => setAlertType(type)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${alertType === type ? 'bg-indigo-600/20 text-indigo-300 border-indigo-500/40' : 'bg-slate-900/40 text-slate-400 border-slate-800 hover:text-slate-200'}`}
+          >
+            {type === 'all' ? 'All Types' : type}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showAcknowledged}
+            onChange={(e) => setShowAcknowledged(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Show acknowledged
+        </label>
+      </div>
+
+      {/* Alerts Table */}
+      <div className="flex-1 bg-slate-900/40 border border-slate-800/60 rounded-xl overflow-hidden flex flex-col">
+        <div className="flex-1 overflow-y-auto">
+          {!isLoading && alerts.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-full text-slate-500 py-16">
+              <AlertCircle size={40} className="mb-3 opacity-50" />
+              <p className="font-medium text-lg">No alerts</p>
+              <p className="text-xs mt-2 text-slate-600">Alerts appear when a saved register day names a carrier in your database</p>
+            </div>
+          )}
+
+          {alerts.length > 0 && (
+            <table className="w-full text-left border-collapse">
+              <thead className="sticky top-0 bg-slate-900/95 backdrop-blur-md text-slate-500 text-[11px] uppercase tracking-widest font-black">
+                <tr>
+                  <th className="px-6 py-4 border-b border-slate-800/60">Register Date</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60">Carrier</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60">MC / USDOT</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60">Type</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60">Decided</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/40">
+                {alerts.map(alert => (
+                  <tr key={alert.id} className={`hover:bg-indigo-500/5 transition-all ${alert.acknowledged ? 'opacity-50' : ''}`}>
+                    <td className="px-6 py-4 text-xs text-slate-400 font-mono">{alert.register_date}</td>
+                    <td className="px-6 py-4 text-sm text-slate-200" title={alert.register_title}>{alert.legal_name || alert.register_title}</td>
+                    <td className="px-6 py-4 text-xs font-mono">
+                      <button
+                        onClick={() => onOpenCarrier?.(alert.mc_number)}
+                        className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-bold"
+                      >
+                        MC-{alert.mc_number} <ExternalLink size={11} />
+                      </button>
+                      <span className="text-slate-500">{alert.dot_number ? `DOT ${alert.dot_number}` : '-'}</span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-3 py-1.5 rounded-md text-[10px] font-bold border inline-block ${getAlertColor(alert.alert_type)}`}>
+                        {alert.alert_type}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-500 font-mono">{alert.decided || '-'}</td>
+                    <td className="px-6 py-4 text-right">
+                      {!alert.acknowledged && alert.id && (
+                        <button
+                          onClick={() => acknowledge([alert.id as string])}
+                          title="Acknowledge"
+                          className="p-1.5 text-slate-500 hover:text-green-400 hover:bg-green-500/10 rounded-lg transition-colors"
+                        >
+                          <Check size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
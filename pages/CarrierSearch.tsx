@@ -1,14 +1,24 @@
 
-import React, { useState } from 'react';
-import { Search, Eye, X, MapPin, Phone, Mail, Hash, Truck, Calendar, ShieldCheck, Download, ShieldAlert, Activity, Info, Globe, Map as MapIcon, Boxes, Shield, ExternalLink, CheckCircle2, AlertTriangle, Zap, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Search, Eye, X, MapPin, Phone, Mail, Hash, Truck, Calendar, ShieldCheck, Download, ShieldAlert, Activity, Info, Globe, Map as MapIcon, Boxes, Shield, ExternalLink, CheckCircle2, AlertTriangle, Zap, Loader2, ChevronDown, ChevronUp, History, Star, ChevronLeft, ChevronRight, ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
 import { CarrierData } from '../types';
 import { downloadCSV } from '../services/mockService';
-import { CarrierFilters } from '../services/supabaseClient';
+import {
+  CarrierFilters,
+  CarrierSortColumn,
+  DEFAULT_CARRIER_PAGE_SIZE,
+  fetchAllCarriers,
+  markCarrierViewed,
+  setCarrierWatchlisted
+} from '../services/supabaseClient';
+import { CarrierFieldChange, CarrierSnapshot, fetchCarrierSnapshots, SNAPSHOT_FIELD_LABELS } from '../services/carrierHistoryService';
 
 interface CarrierSearchProps {
   carriers: CarrierData[];
+  totalCarriers: number;       // matches across every page
   onSearch: (filters: CarrierFilters) => void;
   isLoading: boolean;
+  focusedDotNumber?: string | null;
   onNavigateToInsurance: () => void;
 }
 
@@ -46,6 +56,16 @@ const CARGO_TYPES = [
 
 const INSURANCE_REQUIRED_TYPES = ['BI&PD','CARGO','BOND'];
 
+const SORT_OPTIONS: { value: CarrierSortColumn; label: string }[] = [
+  { value: 'created_at', label: 'Date Added' },
+  { value: 'legal_name', label: 'Legal Name' },
+  { value: 'power_units_count', label: 'Power Units' },
+  { value: 'mcs150_form_date', label: 'MCS-150 Date' },
+  { value: 'safety_rating', label: 'Safety Rating' },
+];
+
+const PAGE_SIZES = [50, 100, 250, 500];
+
 // Helper to calculate years in business from MCS-150 date
 const calculateYearsInBusiness = (mcs150Date: string | undefined): number | null => {
   if (!mcs150Date || mcs150Date === 'N/A') return null;
@@ -145,17 +165,100 @@ const MinMaxInputs: React.FC<{
   </div>
 );
 
-export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch, isLoading, onNavigateToInsurance }) => {
+// What changed on a carrier between saves, newest first
+const ChangeTimeline: React.FC<{ dotNumber: string }> = ({ dotNumber }) => {
+  const [snapshots, setSnapshots] = useState<CarrierSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchCarrierSnapshots(dotNumber).then(rows => {
+      if (cancelled) return;
+      setSnapshots(rows);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [dotNumber]);
+
+  return (
+    <div className="bg-slate-850/40 p-8 rounded-[2rem] border border-slate-800 shadow-2xl mt-8">
+      <div className="flex items-center gap-3 mb-6">
+        <History size={20} className="text-indigo-400" />
+        <h4 className="text-xl font-black text-white uppercase tracking-tight">Change History</h4>
+      </div>
+      {loading ? (
+        <div className="flex items-center gap-2 text-slate-500 text-xs"><Loader2 size={14} className="animate-spin" /> Loading history...</div>
+      ) : snapshots.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">No recorded changes yet. History starts with the next save of this carrier.</p>
+      ) : (
+        <ol className="relative border-l border-slate-700 ml-2 space-y-6">
+          {snapshots.map(snap => (
+            <li key={snap.id} className="ml-6">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-slate-900 ${snap.change_type === 'created' ? 'bg-emerald-500' : 'bg-indigo-500'}`}></span>
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">
+                {new Date(snap.recorded_at).toLocaleString()} · {snap.change_type === 'created' ? 'First saved' : `${Object.keys(snap.changes).length} field(s) changed`}
+              </p>
+              {snap.change_type === 'updated' && (
+                <div className="space-y-1">
+                  {(Object.entries(snap.changes) as [string, CarrierFieldChange][]).map(([field, change]) => (
+                    <div key={field} className="text-xs flex flex-wrap gap-x-2">
+                      <span className="font-bold text-slate-300">{SNAPSHOT_FIELD_LABELS[field] || field}:</span>
+                      <span className="text-red-400/80 line-through">{change.from || 'empty'}</span>
+                      <span className="text-slate-600">→</span>
+                      <span className="text-emerald-400">{change.to || 'empty'}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, totalCarriers, onSearch, isLoading, focusedDotNumber, onNavigateToInsurance }) => {
   const [mcSearchTerm, setMcSearchTerm] = useState('');
   const [nameSearchTerm, setNameSearchTerm] = useState('');
-  const [selectedDot, setSelectedDot] = useState<string | null>(null);
+  const [selectedDot, setSelectedDot] = useState<string | null>(focusedDotNumber || null);
   const [showFilters, setShowFilters] = useState(false);
+  // Filters of the last search; paging and sorting re-run them rather than unapplied edits
+  const [appliedFilters, setAppliedFilters] = useState<CarrierFilters>({});
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(DEFAULT_CARRIER_PAGE_SIZE);
+  const [sortBy, setSortBy] = useState<CarrierSortColumn>('created_at');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+  const [isExporting, setIsExporting] = useState(false);
+  // Watchlist toggles made in this session, by USDOT number
+  const [watchlistChanges, setWatchlistChanges] = useState<Record<string, boolean>>({});
+
+  // Open the detail view when navigated here for a specific carrier
+  useEffect(() => {
+    if (focusedDotNumber) setSelectedDot(focusedDotNumber);
+  }, [focusedDotNumber]);
+
+  // Recently viewed carriers are re-verified ahead of the rest
+  useEffect(() => {
+    if (selectedDot) markCarrierViewed(selectedDot);
+  }, [selectedDot]);
+
+  const toggleWatchlist = async (carrier: CarrierData) => {
+    const next = !(watchlistChanges[carrier.dotNumber] ?? carrier.watchlisted);
+    const result = await setCarrierWatchlisted(carrier.dotNumber, next);
+    if (result.success) {
+      setWatchlistChanges(prev => ({ ...prev, [carrier.dotNumber]: next }));
+    }
+  };
 
   // Filter states – matching the provided HTML spec
   const [filters, setFilters] = useState({
     // Motor Carrier
     active: '',
     state: [] as string[],
+    city: '',
+    zip: '',
     dot: '',
     yearsInBusinessMin: '',
     yearsInBusinessMax: '',
@@ -199,6 +302,8 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
     if (filters.dot.trim()) f.dotNumber = filters.dot.trim();
     if (filters.active) f.active = filters.active;
     if (filters.state.length > 0) f.state = filters.state.join('|'); // will match any
+    if (filters.city.trim()) f.city = filters.city.trim();
+    if (filters.zip.trim()) f.zip = filters.zip.trim();
     if (filters.hasEmail) f.hasEmail = filters.hasEmail;
     if (filters.hasBoc3) f.hasBoc3 = filters.hasBoc3;
     if (filters.hasCompanyRep) f.hasCompanyRep = filters.hasCompanyRep;
@@ -233,15 +338,58 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
     return f;
   };
 
+  const runSearch = (
+    base: CarrierFilters,
+    next: { page?: number; pageSize?: number; sortBy?: CarrierSortColumn; sortDir?: 'asc' | 'desc' } = {}
+  ) => {
+    const size = next.pageSize ?? pageSize;
+    const pageIndex = next.page ?? 0;
+    setPage(pageIndex);
+    onSearch({
+      ...base,
+      offset: pageIndex * size,
+      limit: size,
+      sortBy: next.sortBy ?? sortBy,
+      sortDir: next.sortDir ?? sortDir,
+    });
+  };
+
   const applyFilters = () => {
-    onSearch(buildFilters());
+    const f = buildFilters();
+    setAppliedFilters(f);
+    runSearch(f);
+  };
+
+  const changeSort = (column: CarrierSortColumn, dir: 'asc' | 'desc') => {
+    setSortBy(column);
+    setSortDir(dir);
+    runSearch(appliedFilters, { sortBy: column, sortDir: dir });
+  };
+
+  const changePageSize = (size: number) => {
+    setPageSize(size);
+    runSearch(appliedFilters, { pageSize: size });
+  };
+
+  const exportAll = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllCarriers({ ...appliedFilters, sortBy, sortDir });
+      if (rows.length > 0) downloadCSV(rows);
+    } finally {
+      setIsExporting(false);
+    }
   };
 
+  const pageCount = Math.max(1, Math.ceil(totalCarriers / pageSize));
+  const firstShown = carriers.length > 0 ? page * pageSize + 1 : 0;
+  const lastShown = page * pageSize + carriers.length;
+
   const resetAll = () => {
     setMcSearchTerm('');
     setNameSearchTerm('');
     setFilters({
-      active: '', state: [], dot: '', yearsInBusinessMin: '', yearsInBusinessMax: '',
+      active: '', state: [], city: '', zip: '', dot: '', yearsInBusinessMin: '', yearsInBusinessMax: '',
       hasEmail: '', hasBoc3: '', hasCompanyRep: '',
       classification: [], carrierOperation: [], hazmat: '',
       powerUnitsMin: '', powerUnitsMax: '', driversMin: '', driversMax: '', cargo: [],
@@ -250,10 +398,12 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
       injuriesMin: '', injuriesMax: '', fatalitiesMin: '', fatalitiesMax: '',
       towawayMin: '', towawayMax: '', inspectionsMin: '', inspectionsMax: '',
     });
-    onSearch({});
+    setAppliedFilters({});
+    runSearch({});
   };
 
   const selectedCarrier = selectedDot ? carriers.find(c => c.dotNumber === selectedDot) : null;
+  const isWatchlisted = selectedCarrier ? (watchlistChanges[selectedCarrier.dotNumber] ?? selectedCarrier.watchlisted ?? false) : false;
 
   const yesNoOptions = [
     { value: '', label: 'Any' },
@@ -274,8 +424,7 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
         <div>
           <h1 className="text-2xl md:text-3xl font-extrabold text-white mb-1 tracking-tight">Carrier Database</h1>
           <p className="text-slate-400 text-sm">
-            Showing <span className="text-indigo-400 font-bold">{carriers.length}</span> records
-            {carriers.length === 200 && <span className="text-slate-500"> (default 200 — use filters to search all)</span>}
+            Showing <span className="text-indigo-400 font-bold">{firstShown.toLocaleString()}–{lastShown.toLocaleString()}</span> of <span className="text-indigo-400 font-bold">{totalCarriers.toLocaleString()}</span> records
           </p>
         </div>
         <div className="flex gap-3 w-full md:w-auto">
@@ -286,11 +435,13 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
             <ShieldAlert size={16} /> Batch Enrichment Pipeline
           </button>
           <button
-            onClick={() => downloadCSV(carriers)}
-            disabled={carriers.length === 0}
+            onClick={exportAll}
+            disabled={totalCarriers === 0 || isExporting}
+            title="Export every matching record, not just this page"
             className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white rounded-xl text-sm font-bold transition-all border border-slate-700 active:scale-95"
           >
-            <Download size={16} /> Export CSV
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isExporting ? 'Exporting...' : `Export CSV (${totalCarriers.toLocaleString()})`}
           </button>
         </div>
       </div>
@@ -365,6 +516,16 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                 <FilterLabel>State</FilterLabel>
                 <MultiSelect options={US_STATES} selected={filters.state} onChange={v => setFilters(p => ({ ...p, state: v }))} placeholder="All" />
               </div>
+              <div>
+                <FilterLabel>City</FilterLabel>
+                <input type="text" name="city" value={filters.city} onChange={handleFilterChange} placeholder=""
+                  className="w-full bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:border-indigo-500" />
+              </div>
+              <div>
+                <FilterLabel>ZIP Code</FilterLabel>
+                <input type="text" name="zip" value={filters.zip} onChange={handleFilterChange} placeholder="Starts with" maxLength={10}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white outline-none focus:border-indigo-500" />
+              </div>
               <div>
                 <FilterLabel>DOT Number</FilterLabel>
                 <input type="number" name="dot" value={filters.dot} onChange={handleFilterChange} placeholder="" min={0}
@@ -426,7 +587,7 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                 <MultiSelect options={INSURANCE_REQUIRED_TYPES} selected={filters.insuranceRequired} onChange={v => setFilters(p => ({ ...p, insuranceRequired: v }))} placeholder="All" />
               </div>
               <div>
-                <FilterLabel>Required BIPD</FilterLabel>
+                <FilterLabel>BIPD Coverage ($)</FilterLabel>
                 <MinMaxInputs nameMin="bipdMin" nameMax="bipdMax"
                   valueMin={filters.bipdMin} valueMax={filters.bipdMax} onChange={handleFilterChange} />
               </div>
@@ -447,27 +608,27 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
             {/* ── Safety ── */}
             <FilterGroup title="Safety" icon={<ShieldCheck size={12} />}>
               <div>
-                <FilterLabel>OOS Violations</FilterLabel>
+                <FilterLabel>OOS Rate % (Worst Type)</FilterLabel>
                 <MinMaxInputs nameMin="oosMin" nameMax="oosMax" valueMin={filters.oosMin} valueMax={filters.oosMax} onChange={handleFilterChange} />
               </div>
               <div>
-                <FilterLabel>Crashes</FilterLabel>
+                <FilterLabel>Crashes (24 Mo)</FilterLabel>
                 <MinMaxInputs nameMin="crashesMin" nameMax="crashesMax" valueMin={filters.crashesMin} valueMax={filters.crashesMax} onChange={handleFilterChange} />
               </div>
               <div>
-                <FilterLabel>Injuries</FilterLabel>
+                <FilterLabel>Injury Crashes</FilterLabel>
                 <MinMaxInputs nameMin="injuriesMin" nameMax="injuriesMax" valueMin={filters.injuriesMin} valueMax={filters.injuriesMax} onChange={handleFilterChange} />
               </div>
               <div>
-                <FilterLabel>Fatalities</FilterLabel>
+                <FilterLabel>Fatal Crashes</FilterLabel>
                 <MinMaxInputs nameMin="fatalitiesMin" nameMax="fatalitiesMax" valueMin={filters.fatalitiesMin} valueMax={filters.fatalitiesMax} onChange={handleFilterChange} />
               </div>
               <div>
-                <FilterLabel>Towaway</FilterLabel>
+                <FilterLabel>Towaway Crashes</FilterLabel>
                 <MinMaxInputs nameMin="towawayMin" nameMax="towawayMax" valueMin={filters.towawayMin} valueMax={filters.towawayMax} onChange={handleFilterChange} />
               </div>
               <div>
-                <FilterLabel>Inspections</FilterLabel>
+                <FilterLabel>Inspections (24 Mo)</FilterLabel>
                 <MinMaxInputs nameMin="inspectionsMin" nameMax="inspectionsMax" valueMin={filters.inspectionsMin} valueMax={filters.inspectionsMax} onChange={handleFilterChange} />
               </div>
             </FilterGroup>
@@ -515,7 +676,7 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
               ) : (
                 carriers.map((carrier, idx) => (
                   <tr key={idx} className="hover:bg-indigo-500/5 transition-colors group cursor-pointer" onClick={() => setSelectedDot(carrier.dotNumber)}>
-                    <td className="p-4 font-mono text-indigo-400 font-bold">{carrier.mcNumber}</td>
+                    <td className="p-4 font-mono text-indigo-400 font-bold">{carrier.mcNumber || '-'}</td>
                     <td className="p-4">
                       <div className="font-bold text-white group-hover:text-indigo-200 transition-colors truncate max-w-[250px]">{carrier.legalName}</div>
                     </td>
@@ -539,6 +700,54 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
             </tbody>
           </table>
         </div>
+
+        {/* Sorting & Pagination */}
+        <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-t border-slate-800 bg-slate-900/80 text-xs text-slate-400">
+          <div className="flex items-center gap-2">
+            <span className="font-bold uppercase tracking-widest text-[10px] text-slate-500">Sort</span>
+            <select
+              value={sortBy}
+              onChange={(e) => changeSort(e.target.value as CarrierSortColumn, sortDir)}
+              disabled={isLoading}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-white outline-none focus:border-indigo-500"
+            >
+              {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <button
+              onClick={() => changeSort(sortBy, sortDir === 'asc' ? 'desc' : 'asc')}
+              disabled={isLoading}
+              title={sortDir === 'asc' ? 'Ascending' : 'Descending'}
+              className="p-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 transition-colors"
+            >
+              {sortDir === 'asc' ? <ArrowUpNarrowWide size={14} /> : <ArrowDownWideNarrow size={14} />}
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={pageSize}
+              onChange={(e) => changePageSize(Number(e.target.value))}
+              disabled={isLoading}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-white outline-none focus:border-indigo-500"
+            >
+              {PAGE_SIZES.map(size => <option key={size} value={size}>{size} / page</option>)}
+            </select>
+            <button
+              onClick={() => runSearch(appliedFilters, { page: page - 1 })}
+              disabled={isLoading || page === 0}
+              className="p-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 disabled:opacity-40 transition-colors"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span>Page <span className="text-white font-bold">{page + 1}</span> of {pageCount.toLocaleString()}</span>
+            <button
+              onClick={() => runSearch(appliedFilters, { page: page + 1 })}
+              disabled={isLoading || page + 1 >= pageCount}
+              className="p-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-300 disabled:opacity-40 transition-colors"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* Detailed Modal Popup */}
@@ -560,14 +769,28 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                     </span>
                   </div>
                   <p className="text-sm md:text-base text-slate-400 font-medium italic opacity-60">{selectedCarrier.dbaName || 'No Registered DBA'}</p>
+                  <p className="text-[10px] text-slate-500 font-mono mt-1">
+                    {selectedCarrier.lastVerifiedAt
+                      ? `VERIFIED ${new Date(selectedCarrier.lastVerifiedAt).toLocaleDateString()}${selectedCarrier.verificationStatus && selectedCarrier.verificationStatus !== 'verified' ? ` · ${selectedCarrier.verificationStatus.replace('_', ' ').toUpperCase()}` : ''}`
+                      : `SCRAPED ${selectedCarrier.dateScraped || 'N/A'}`}
+                  </p>
                 </div>
               </div>
-              <button
-                onClick={() => setSelectedDot(null)}
-                className="p-3 text-slate-500 hover:text-white hover:bg-slate-800 rounded-2xl transition-all active:scale-75"
-              >
-                <X size={28} />
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => toggleWatchlist(selectedCarrier)}
+                  title={isWatchlisted ? 'Remove from watchlist' : 'Add to watchlist (re-verified first)'}
+                  className={`p-3 rounded-2xl transition-all active:scale-75 ${isWatchlisted ? 'text-yellow-400 hover:bg-slate-800' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                >
+                  <Star size={24} fill={isWatchlisted ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  onClick={() => setSelectedDot(null)}
+                  className="p-3 text-slate-500 hover:text-white hover:bg-slate-800 rounded-2xl transition-all active:scale-75"
+                >
+                  <X size={28} />
+                </button>
+              </div>
             </div>
 
             {/* Modal Body */}
@@ -580,7 +803,7 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                     <Hash size={14} className="text-indigo-400" /> Identification
                   </h3>
                   <div className="space-y-3">
-                    <div className="flex flex-col"><span className="text-[9px] text-slate-500 font-black uppercase">MC/MX Number</span><span className="text-base font-black text-indigo-400 font-mono tracking-tight">{selectedCarrier.mcNumber}</span></div>
+                    <div className="flex flex-col"><span className="text-[9px] text-slate-500 font-black uppercase">MC/MX Number</span><span className="text-base font-black text-indigo-400 font-mono tracking-tight">{selectedCarrier.mcNumber || 'None (DOT only)'}</span></div>
                     <div className="flex flex-col"><span className="text-[9px] text-slate-500 font-black uppercase">USDOT Number</span><span className="text-base font-black text-white font-mono tracking-tight">{selectedCarrier.dotNumber}</span></div>
                     <div className="flex flex-col"><span className="text-[9px] text-slate-500 font-black uppercase">DUNS Number</span><span className="text-sm font-bold text-slate-400">{selectedCarrier.dunsNumber || '--'}</span></div>
                   </div>
@@ -631,6 +854,18 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                       <span className="text-[9px] text-slate-500 font-black uppercase block mb-1">Mileage / VMT</span>
                       <span className="text-sm font-bold text-slate-300">{selectedCarrier.mcs150Mileage || 'N/A'}</span>
                     </div>
+                    <div className="bg-slate-900/50 p-3 rounded-2xl border border-slate-800 shadow-inner">
+                      <span className="text-[9px] text-slate-500 font-black uppercase block mb-1">BOC-3 Process Agent</span>
+                      <span className="text-sm font-bold text-slate-300">
+                        {selectedCarrier.boc3OnFile == null ? 'Not Checked' : selectedCarrier.boc3OnFile ? (selectedCarrier.boc3Agent || 'On File') : 'Not On File'}
+                      </span>
+                    </div>
+                    <div className="bg-slate-900/50 p-3 rounded-2xl border border-slate-800 shadow-inner">
+                      <span className="text-[9px] text-slate-500 font-black uppercase block mb-1">Company Rep</span>
+                      <span className="text-sm font-bold text-slate-300">
+                        {selectedCarrier.companyReps == null ? 'Not Checked' : selectedCarrier.companyReps.join(', ') || 'None Listed'}
+                      </span>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -751,6 +986,28 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                           ))}
                         </div>
                       </div>
+                      {selectedCarrier.safetySummary && (
+                        <>
+                          <div className="h-px bg-slate-800/50" />
+                          <div className="space-y-4">
+                            <h5 className="text-xs font-black text-slate-100 uppercase tracking-widest opacity-80">US Totals (24 Months)</h5>
+                            <div className="grid grid-cols-5 gap-3">
+                              {[
+                                { label: 'Inspections', value: selectedCarrier.safetySummary.inspections },
+                                { label: 'Crashes', value: selectedCarrier.safetySummary.crashes },
+                                { label: 'Fatal', value: selectedCarrier.safetySummary.fatalCrashes },
+                                { label: 'Injury', value: selectedCarrier.safetySummary.injuryCrashes },
+                                { label: 'Tow', value: selectedCarrier.safetySummary.towawayCrashes },
+                              ].map(item => (
+                                <div key={item.label} className="text-center">
+                                  <p className="text-sm font-black text-slate-200 font-mono">{item.value ?? '—'}</p>
+                                  <p className="text-[9px] text-slate-500 uppercase tracking-widest">{item.label}</p>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        </>
+                      )}
                     </div>
                   ) : (
                     <div className="flex-1 flex flex-col items-center justify-center py-20 text-slate-700 text-center space-y-4">
@@ -804,6 +1061,9 @@ export const CarrierSearch: React.FC<CarrierSearchProps> = ({ carriers, onSearch
                   </div>
                 </div>
               </div>
+
+              {/* 4. Change History */}
+              <ChangeTimeline dotNumber={selectedCarrier.dotNumber} />
             </div>
 
             {/* Modal Footer */}
@@ -1,24 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, RefreshCw, Calendar, Search, Filter, ChevronDown, ExternalLink, AlertCircle, X, Database, CheckCircle2, TrendingUp, BarChart3 } from 'lucide-react';
-import { saveFMCSARegisterEntries, fetchFMCSARegisterEntries, getFMCSAStatistics } from '../services/fmcsaRegisterService';
-
-interface FMCSARegisterEntry {
-  number: string;
-  title: string;
-  decided: string;
-  category: string;
+import { FileText, RefreshCw, Calendar, Search, Filter, ChevronDown, ExternalLink, AlertCircle, X, MapPin, Database, Link2, CheckCircle2, TrendingUp, BarChart3 } from 'lucide-react';
+import { saveFMCSARegisterEntries, fetchFMCSARegisterEntries, getFMCSAStatistics, registerRowToEntry, fetchCarrierLinks } from '../services/fmcsaRegisterService';
+import { FMCSARegisterEntry } from '../types';
+import { RegisterCoverageCalendar } from '../components/RegisterCoverageCalendar';
+
+// Smart detection for Local vs Production
+const getRegisterApiUrl = (): string => {
+  const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
+  return isLocal ? 'http://localhost:3001/api/fmcsa-register' : '/api/fmcsa-register';
+};
+
+interface FMCSARegisterProps {
+  onOpenCarrier?: (mcNumber: string) => void;
+  onAlertsChanged?: () => void;
 }
 
-export const FMCSARegister: React.FC = () => {
+export const FMCSARegister: React.FC<FMCSARegisterProps> = ({ onOpenCarrier, onAlertsChanged }) => {
   const [registerData, setRegisterData] = useState<FMCSARegisterEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string>('');
   const [selectedDate, setSelectedDate] = useState<string>(getTodayDate());
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [selectedState, setSelectedState] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [error, setError] = useState<string>('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [stats, setStats] = useState<any>(null);
+  const [unplaced, setUnplaced] = useState<string[]>([]);
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [coverageRefreshKey, setCoverageRefreshKey] = useState(0);
+  const [backfillFrom, setBackfillFrom] = useState<string>(getTodayDate());
+  const [backfillTo, setBackfillTo] = useState<string>(getTodayDate());
+  const [backfillMessage, setBackfillMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [isStartingBackfill, setIsStartingBackfill] = useState(false);
+  const [carrierLinks, setCarrierLinks] = useState<Record<string, string>>({});
+  const [autoEnrich, setAutoEnrich] = useState(false);
+  const [enrichMessage, setEnrichMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
   const categories = [
     'NAME CHANGE',
@@ -29,7 +46,8 @@ export const FMCSARegister: React.FC = () => {
     'REVOCATION',
     'MISCELLANEOUS',
     'TRANSFERS',
-    'GRANT DECISION NOTICES'
+    'GRANT DECISION NOTICES',
+    'UNCATEGORIZED'
   ];
 
   // Get today's date in YYYY-MM-DD format
@@ -53,10 +71,24 @@ export const FMCSARegister: React.FC = () => {
     loadFromSupabase();
   }, []);
 
+  // Look up which MC dockets already have a carrier record
+  useEffect(() => {
+    const mcNumbers = registerData
+      .filter(e => e.docketPrefix === 'MC' && e.docketNumber)
+      .map(e => e.docketNumber as string);
+
+    if (mcNumbers.length === 0) {
+      setCarrierLinks({});
+      return;
+    }
+    fetchCarrierLinks(mcNumbers).then(setCarrierLinks);
+  }, [registerData]);
+
   const loadFromSupabase = async (dateOverride?: string) => {
     setIsLoading(true);
     setError('');
     const dateToUse = dateOverride || selectedDate;
+    setUnplaced([]);
     
     try {
       const data = await fetchFMCSARegisterEntries({
@@ -65,12 +97,7 @@ export const FMCSARegister: React.FC = () => {
       });
       
       if (data && data.length > 0) {
-        setRegisterData(data.map(d => ({
-          number: d.number,
-          title: d.title,
-          decided: d.decided,
-          category: d.category
-        })));
+        setRegisterData(data.map(registerRowToEntry));
         setLastUpdated(`Loaded from DB: ${new Date().toLocaleTimeString()}`);
         
         // Load statistics
@@ -99,11 +126,7 @@ export const FMCSARegister: React.FC = () => {
     try {
       const formattedDate = formatDateForAPI(selectedDate);
       
-      // Smart detection for Local vs Production
-      const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
-      const apiUrl = isLocal ? 'http://localhost:3001/api/fmcsa-register' : '/api/fmcsa-register';
-      
-      const response = await fetch(apiUrl, {
+      const response = await fetch(getRegisterApiUrl(), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -123,6 +146,7 @@ export const FMCSARegister: React.FC = () => {
       if (data.success && data.entries && data.entries.length > 0) {
         setRegisterData(data.entries);
         setLastUpdated(`Live: ${new Date().toLocaleTimeString()} (${data.count} records)`);
+        setUnplaced(data.unplaced || []);
         
         // Auto-save to Supabase
         saveToSupabase(data.entries, selectedDate);
@@ -144,12 +168,12 @@ export const FMCSARegister: React.FC = () => {
   const saveToSupabase = async (entries: FMCSARegisterEntry[], fetchDate: string) => {
     setSaveStatus('saving');
     try {
-      const result = await saveFMCSARegisterEntries(
-        entries.map(e => ({ ...e, date_fetched: fetchDate })),
-        fetchDate
-      );
+      const result = await saveFMCSARegisterEntries(entries, fetchDate);
       if (result.success) {
         setSaveStatus('saved');
+        setCoverageRefreshKey(k => k + 1);
+        if (autoEnrich) startEnrichment(fetchDate);
+        if (result.alerts) onAlertsChanged?.();
         setTimeout(() => setSaveStatus('idle'), 3000);
       } else {
         setSaveStatus('error');
@@ -159,11 +183,53 @@ export const FMCSARegister: React.FC = () => {
     }
   };
 
+  const startEnrichment = async (date: string) => {
+    setEnrichMessage(null);
+    try {
+      const response = await fetch(`${getRegisterApiUrl()}/enrich`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Server returned ${response.status}`);
+      }
+      setEnrichMessage({ type: 'success', text: `Enriching new grants for ${date}. Reload the date to see linked carriers.` });
+    } catch (err: any) {
+      setEnrichMessage({ type: 'error', text: err.message || 'Failed to start grant enrichment.' });
+    }
+  };
+
+  const startBackfill = async () => {
+    setIsStartingBackfill(true);
+    setBackfillMessage(null);
+    try {
+      const response = await fetch(`${getRegisterApiUrl()}/backfill`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: backfillFrom, to: backfillTo, enrich: autoEnrich })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Server returned ${response.status}`);
+      }
+      setBackfillMessage({ type: 'success', text: `Backfill started for ${backfillFrom} → ${backfillTo}. Days turn green as they are stored.` });
+    } catch (err: any) {
+      setBackfillMessage({ type: 'error', text: err.message || 'Failed to start backfill.' });
+    } finally {
+      setIsStartingBackfill(false);
+    }
+  };
+
+  const availableStates = Array.from(new Set(registerData.map(e => e.state).filter((s): s is string => !!s))).sort();
+
   const filteredData = registerData.filter(entry => {
     const matchesCategory = selectedCategory === 'all' || entry.category === selectedCategory;
+    const matchesState = selectedState === 'all' || entry.state === selectedState;
     const matchesSearch = entry.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
                          entry.number.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch;
+    return matchesCategory && matchesState && matchesSearch;
   });
 
   const getCategoryColor = (category: string) => {
@@ -177,6 +243,7 @@ export const FMCSARegister: React.FC = () => {
       'MISCELLANEOUS': 'bg-slate-500/20 text-slate-400 border-slate-500/30',
       'TRANSFERS': 'bg-indigo-500/20 text-indigo-400 border-indigo-500/30',
       'GRANT DECISION NOTICES': 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+      'UNCATEGORIZED': 'bg-amber-500/20 text-amber-400 border-amber-500/30',
     };
     return colors[category] || 'bg-slate-500/20 text-slate-400 border-slate-500/30';
   };
@@ -202,6 +269,21 @@ export const FMCSARegister: React.FC = () => {
         <div className="flex items-center gap-3">
           {saveStatus === 'saving' && <span className="text-xs text-slate-500 animate-pulse flex items-center gap-1 bg-slate-800/50 px-3 py-1.5 rounded-full border border-slate-700/50"><Database size={12}/> Syncing...</span>}
           {saveStatus === 'saved' && <span className="text-xs text-green-500 flex items-center gap-1 bg-green-500/10 px-3 py-1.5 rounded-full border border-green-500/30"><CheckCircle2 size={12}/> Synced</span>}
+          <button
+            onClick={() => setAutoEnrich(v => !v)}
+            title="Scrape and link carriers for new grants after each save"
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-semibold transition-all border ${autoEnrich ? 'bg-emerald-600/20 text-emerald-300 border-emerald-500/40' : 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700'}`}
+          >
+            <Link2 size={16} />
+            Auto-Enrich {autoEnrich ? 'On' : 'Off'}
+          </button>
+          <button
+            onClick={() => setShowCoverage(v => !v)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg text-sm font-semibold transition-all border ${showCoverage ? 'bg-indigo-600/20 text-indigo-300 border-indigo-500/40' : 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700'}`}
+          >
+            <Calendar size={16} />
+            Coverage
+          </button>
           <button
             onClick={fetchRegisterData}
             disabled={isLoading}
@@ -213,6 +295,67 @@ export const FMCSARegister: React.FC = () => {
         </div>
       </div>
 
+      {enrichMessage && (
+        <div className={`mb-6 px-4 py-3 rounded-xl border text-xs flex items-center justify-between ${enrichMessage.type === 'success' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-red-500/10 border-red-500/30 text-red-300'}`}>
+          <span className="flex items-center gap-2"><Link2 size={14} /> {enrichMessage.text}</span>
+          <button onClick={() => setEnrichMessage(null)} className="text-slate-500 hover:text-white"><X size={14} /></button>
+        </div>
+      )}
+
+      {/* Coverage Calendar & Backfill */}
+      {showCoverage && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+          <div className="lg:col-span-2 bg-slate-900/40 border border-slate-800/60 rounded-xl p-4">
+            <RegisterCoverageCalendar
+              selectedDate={selectedDate}
+              refreshKey={coverageRefreshKey}
+              onSelectDate={(date) => {
+                setSelectedDate(date);
+                loadFromSupabase(date);
+              }}
+            />
+          </div>
+          <div className="bg-slate-900/40 border border-slate-800/60 rounded-xl p-4 flex flex-col gap-3">
+            <div>
+              <p className="text-sm font-bold text-white">Backfill Date Range</p>
+              <p className="text-[11px] text-slate-500 mt-0.5">Weekends and days already stored are skipped. Days are fetched one at a time.</p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1">From</label>
+                <input type="date" value={backfillFrom} onChange={(e) => setBackfillFrom(e.target.value)}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-sm text-slate-200 focus:outline-none focus:border-indigo-500/50 [color-scheme:dark]" />
+              </div>
+              <div>
+                <label className="block text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1">To</label>
+                <input type="date" value={backfillTo} onChange={(e) => setBackfillTo(e.target.value)}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-sm text-slate-200 focus:outline-none focus:border-indigo-500/50 [color-scheme:dark]" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={startBackfill}
+                disabled={isStartingBackfill || !backfillFrom || !backfillTo}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-semibold transition-all disabled:opacity-50"
+              >
+                <Database size={14} />
+                {isStartingBackfill ? 'Starting...' : 'Start Backfill'}
+              </button>
+              <button
+                onClick={() => setCoverageRefreshKey(k => k + 1)}
+                title="Refresh calendar"
+                className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 transition-all"
+              >
+                <RefreshCw size={14} />
+              </button>
+            </div>
+            {backfillMessage && (
+              <p className={`text-[11px] leading-relaxed ${backfillMessage.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{backfillMessage.text}</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Stats Cards */}
       {stats && stats.byCategory && Object.keys(stats.byCategory).length > 0 && (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mb-6">
@@ -225,8 +368,19 @@ export const FMCSARegister: React.FC = () => {
         </div>
       )}
 
+      {/* Unplaced dockets warning */}
+      {unplaced.length > 0 && (
+        <div className="mb-6 flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3 text-amber-300">
+          <AlertCircle size={16} className="mt-0.5 shrink-0" />
+          <div className="text-xs leading-relaxed">
+            <p className="font-bold">{unplaced.length} docket{unplaced.length === 1 ? '' : 's'} could not be placed in a register section and {unplaced.length === 1 ? 'is' : 'are'} listed as UNCATEGORIZED.</p>
+            <p className="font-mono text-amber-400/70 mt-1 truncate" title={unplaced.join(', ')}>{unplaced.join(', ')}</p>
+          </div>
+        </div>
+      )}
+
       {/* Filters Row - Enhanced Dark Styling */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 bg-slate-900/40 p-4 rounded-xl border border-slate-800/60 backdrop-blur-sm hover:bg-slate-900/50 transition-all">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6 bg-slate-900/40 p-4 rounded-xl border border-slate-800/60 backdrop-blur-sm hover:bg-slate-900/50 transition-all">
         {/* Date Picker */}
         <div className="relative group">
           <label className="absolute -top-2 left-3 px-1 bg-slate-950 text-[10px] text-slate-500 uppercase tracking-wider font-bold group-focus-within:text-indigo-400 transition-colors">Date</label>
@@ -263,6 +417,25 @@ export const FMCSARegister: React.FC = () => {
           </div>
         </div>
 
+        {/* State Filter */}
+        <div className="relative group">
+          <label className="absolute -top-2 left-3 px-1 bg-slate-950 text-[10px] text-slate-500 uppercase tracking-wider font-bold group-focus-within:text-indigo-400 transition-colors">State</label>
+          <div className="flex items-center bg-slate-950 border border-slate-800 rounded-lg px-3 py-2.5 focus-within:border-indigo-500/50 focus-within:shadow-lg focus-within:shadow-indigo-900/20 transition-all">
+            <MapPin size={16} className="text-slate-500 mr-2" />
+            <select
+              value={selectedState}
+              onChange={(e) => setSelectedState(e.target.value)}
+              className="bg-transparent border-none text-sm text-slate-200 focus:outline-none w-full appearance-none cursor-pointer"
+            >
+              <option value="all" className="bg-slate-900">All States</option>
+              {availableStates.map(st => (
+                <option key={st} value={st} className="bg-slate-900">{st} ({registerData.filter(e => e.state === st).length})</option>
+              ))}
+            </select>
+            <ChevronDown size={14} className="text-slate-500 pointer-events-none ml-1" />
+          </div>
+        </div>
+
         {/* Search */}
         <div className="relative md:col-span-2 group">
           <label className="absolute -top-2 left-3 px-1 bg-slate-950 text-[10px] text-slate-500 uppercase tracking-wider font-bold group-focus-within:text-indigo-400 transition-colors">Search</label>
@@ -366,21 +539,42 @@ export const FMCSARegister: React.FC = () => {
                 <tr>
                   <th className="px-6 py-4 border-b border-slate-800/60 hover:text-slate-300 transition-colors">Docket #</th>
                   <th className="px-6 py-4 border-b border-slate-800/60 hover:text-slate-300 transition-colors">Carrier / Legal Name</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60 hover:text-slate-300 transition-colors">Location</th>
                   <th className="px-6 py-4 border-b border-slate-800/60 hover:text-slate-300 transition-colors">Category</th>
                   <th className="px-6 py-4 border-b border-slate-800/60 hover:text-slate-300 transition-colors">Decided</th>
+                  <th className="px-6 py-4 border-b border-slate-800/60 hover:text-slate-300 transition-colors">Carrier</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-800/40">
                 {filteredData.map((entry, idx) => (
                   <tr key={idx} className="hover:bg-indigo-500/8 transition-all group cursor-default border-l-2 border-l-transparent hover:border-l-indigo-500">
                     <td className="px-6 py-4 text-sm font-mono text-indigo-400 font-bold group-hover:text-indigo-300 group-hover:scale-105 transition-all origin-left">{entry.number}</td>
-                    <td className="px-6 py-4 text-sm text-slate-300 group-hover:text-white transition-colors leading-snug">{entry.title}</td>
+                    <td className="px-6 py-4 text-sm text-slate-300 group-hover:text-white transition-colors leading-snug" title={entry.title}>
+                      {entry.legalName || entry.title}
+                      {entry.dbaName && <span className="block text-[11px] text-slate-500 italic">DBA {entry.dbaName}</span>}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-400 whitespace-nowrap">
+                      {entry.city || entry.state ? `${entry.city}${entry.city && entry.state ? ', ' : ''}${entry.state}` : '-'}
+                    </td>
                     <td className="px-6 py-4">
                       <span className={`px-3 py-1.5 rounded-md text-[10px] font-bold border inline-block transition-all group-hover:shadow-lg group-hover:scale-105 origin-left ${getCategoryColor(entry.category)}`}>
                         {entry.category}
                       </span>
                     </td>
                     <td className="px-6 py-4 text-xs text-slate-500 font-mono font-medium">{entry.decided}</td>
+                    <td className="px-6 py-4">
+                      {entry.docketPrefix === 'MC' && entry.docketNumber && carrierLinks[entry.docketNumber] ? (
+                        <button
+                          onClick={() => onOpenCarrier?.(entry.docketNumber as string)}
+                          title={`USDOT ${carrierLinks[entry.docketNumber]}`}
+                          className="flex items-center gap-1 text-[11px] font-bold text-emerald-400 hover:text-emerald-300 transition-colors"
+                        >
+                          <ExternalLink size={12} /> View
+                        </button>
+                      ) : (
+                        <span className="text-xs text-slate-600">-</span>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
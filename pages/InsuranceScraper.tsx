@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ShieldCheck, Play, Download, Database, SearchIcon, ClipboardList, Loader2, CheckCircle2, Info, AlertCircle, ShieldAlert, Zap } from 'lucide-react';
-import { CarrierData, InsurancePolicy } from '../types';
+import { CarrierData, InsuranceJob, InsurancePolicy, JobEvent } from '../types';
 import { fetchInsuranceData, fetchSafetyData } from '../services/mockService';
-import { updateCarrierInsurance, updateCarrierSafety } from '../services/supabaseClient';
+import { cancelInsuranceJob, fetchActiveInsuranceJob, startInsuranceJob, subscribeToJobEvents } from '../services/backendService';
 
 interface InsuranceScraperProps {
   carriers: CarrierData[];
@@ -10,33 +10,81 @@ interface InsuranceScraperProps {
   autoStart?: boolean;
 }
 
+// Terminal line for a streamed enrichment event, or null for events the console skips
+const formatJobEvent = (event: JobEvent, job: InsuranceJob | null): string | null => {
+  const isInsurance = event.stage === 'INSURANCE';
+  switch (event.type) {
+    case 'attempt': {
+      const done = job ? (isInsurance ? job.insProcessed : job.safetyProcessed) : 0;
+      return `⏳ [${event.stage}] [${done + 1}/${job?.total || '?'}] Querying DOT: ${event.dotNumber}...`;
+    }
+    case 'success':
+      return isInsurance
+        ? `✨ Success: Extracted ${event.data?.policies?.length} insurance filings for ${event.dotNumber}`
+        : `✅ Safety: ${event.data?.safety?.rating} rating captured for ${event.dotNumber}`;
+    case 'not_found':
+      return isInsurance
+        ? `⚠️ Info: No active insurance found for ${event.dotNumber}`
+        : `ℹ️ Safety: No formal rating on record for ${event.dotNumber}`;
+    case 'db_save':
+      return event.data?.saved ? null : `❌ DB sync failed for ${event.dotNumber}: ${event.message}`;
+    case 'failed':
+      return isInsurance
+        ? `❌ Fail: Insurance timeout for DOT ${event.dotNumber}`
+        : `❌ Fail: Safety engine error for DOT ${event.dotNumber}`;
+    case 'rate_limited':
+      return `⚠️ Rate limited on DOT ${event.dotNumber}: ${event.message}`;
+    default:
+      return null;
+  }
+};
+
 export const InsuranceScraper: React.FC<InsuranceScraperProps> = ({ carriers, onUpdateCarriers, autoStart }) => {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentStage, setCurrentStage] = useState<'IDLE' | 'INSURANCE' | 'SAFETY'>('IDLE');
+  const [job, setJob] = useState<InsuranceJob | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
-  const [progress, setProgress] = useState(0);
-  const [stats, setStats] = useState({ 
-    total: 0, 
-    insFound: 0, 
-    insFailed: 0,
-    safetyFound: 0,
-    safetyFailed: 0,
-    dbSaved: 0
-  });
   
   // Manual Lookup State
   const [manualDot, setManualDot] = useState('');
   const [isManualLoading, setIsManualLoading] = useState(false);
+  const [manualForceRefresh, setManualForceRefresh] = useState(false);
   const [manualResult, setManualResult] = useState<{policies: InsurancePolicy[], safety?: any} | null>(null);
 
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const isRunningRef = useRef(false);
   const hasAutoStarted = useRef(false);
+  const jobRef = useRef<InsuranceJob | null>(null);
+  const lastEventIdRef = useRef(0);
+  const carriersRef = useRef(carriers);
+  carriersRef.current = carriers;
+
+  const isProcessing = job?.status === 'running';
+  const currentStage = job?.stage || 'IDLE';
+  const stats = {
+    total: job?.total || 0,
+    insFound: job?.insFound || 0,
+    insFailed: job?.insFailed || 0,
+    safetyFound: job?.safetyFound || 0,
+    safetyFailed: job?.safetyFailed || 0,
+    dbSaved: job?.dbSaved || 0
+  };
+  const progress = job && job.total > 0
+    ? Math.round((job.insProcessed / job.total) * 50 + (job.safetyProcessed / job.total) * 50)
+    : 0;
 
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [logs]);
 
+  // Watch a run another admin (or an earlier visit) started
+  useEffect(() => {
+    fetchActiveInsuranceJob().then(active => {
+      if (active && !jobRef.current) {
+        jobRef.current = active;
+        setJob(active);
+        setLogs([`🔄 Watching enrichment run ${active.id.slice(0, 8)} in progress...`]);
+      }
+    });
+  }, []);
+
   // Handle Auto-Start from Live Scraper
   useEffect(() => {
     if (autoStart && carriers.length > 0 && !isProcessing && !hasAutoStarted.current) {
@@ -45,6 +93,62 @@ export const InsuranceScraper: React.FC<InsuranceScraperProps> = ({ carriers, on
     }
   }, [autoStart, carriers]);
 
+  // Stream the run's events; the server replays the log for late viewers
+  useEffect(() => {
+    if (!job) return;
+    return subscribeToJobEvents(`/api/insurance-jobs/${job.id}/events`, handleJobEvent);
+  }, [job?.id]);
+
+  // Apply scraped insurance/safety data to the carrier list shown across the app
+  const patchCarrier = (dotNumber: string, patch: Partial<CarrierData>) => {
+    const updated = carriersRef.current.map(c => c.dotNumber === dotNumber ? { ...c, ...patch } : c);
+    carriersRef.current = updated;
+    onUpdateCarriers(updated);
+  };
+
+  const handleJobEvent = (event: JobEvent) => {
+    if (event.id <= lastEventIdRef.current) return;
+    lastEventIdRef.current = event.id;
+
+    if (event.type === 'job_status') {
+      const latest = event.data as InsuranceJob;
+      const previous = jobRef.current;
+      jobRef.current = latest;
+      setJob(latest);
+
+      if (previous?.stage !== latest.stage && latest.stage === 'INSURANCE') {
+        setLogs(prev => [...prev, `📂 STAGE 1: Insurance Extraction (SearchCarriers API)`]);
+      } else if (previous?.stage !== latest.stage && latest.stage === 'SAFETY') {
+        setLogs(prev => [...prev, `🛡️ STAGE 2: Safety Rating & BASIC Performance (FMCSA API)`]);
+      }
+
+      if (previous?.status === 'running' && latest.status !== 'running') {
+        setLogs(prev => [...prev, latest.status === 'completed'
+          ? `🎉 ENRICHMENT COMPLETE. Database fully synchronized.`
+          : `⚠️ Enrichment stopped before finishing.`]);
+        setLogs(prev => [...prev, `💾 Total Supabase updates: ${latest.dbSaved}`]);
+      }
+      return;
+    }
+
+    const line = formatJobEvent(event, jobRef.current);
+    if (line) setLogs(prev => [...prev, line]);
+
+    if ((event.type === 'success' || event.type === 'not_found') && event.dotNumber) {
+      if (event.data?.policies) {
+        patchCarrier(event.dotNumber, { insurancePolicies: event.data.policies });
+      } else if (event.data?.safety) {
+        const s = event.data.safety;
+        patchCarrier(event.dotNumber, {
+          safetyRating: s.rating,
+          safetyRatingDate: s.ratingDate,
+          basicScores: s.basicScores,
+          oosRates: s.oosRates
+        });
+      }
+    }
+  };
+
   const startEnrichmentProcess = async () => {
     if (isProcessing) return;
     if (carriers.length === 0) {
@@ -52,115 +156,31 @@ export const InsuranceScraper: React.FC<InsuranceScraperProps> = ({ carriers, on
       return;
     }
 
-    setIsProcessing(true);
-    isRunningRef.current = true;
+    const dotNumbers = carriers.map(c => c.dotNumber).filter(dot => dot && dot !== 'UNKNOWN');
     setLogs(prev => [...prev, `🚀 ENGINE INITIALIZED: Automatic Multi-Stage Enrichment...`]);
-    setLogs(prev => [...prev, `🔍 Targeting: ${carriers.length} USDOT records`]);
+    setLogs(prev => [...prev, `🔍 Targeting: ${dotNumbers.length} USDOT records`]);
     setLogs(prev => [...prev, `💾 Supabase sync: ENABLED`]);
-    
-    const updatedCarriers = [...carriers];
-    let dbSaved = 0;
-
-    // --- STAGE 1: INSURANCE EXTRACTION ---
-    setCurrentStage('INSURANCE');
-    setLogs(prev => [...prev, `📂 STAGE 1: Insurance Extraction (SearchCarriers API)`]);
-    
-    let insFound = 0;
-    let insFailed = 0;
-
-    for (let i = 0; i < updatedCarriers.length; i++) {
-      if (!isRunningRef.current) break;
-      const dot = updatedCarriers[i].dotNumber;
-      
-      setLogs(prev => [...prev, `⏳ [INSURANCE] [${i+1}/${updatedCarriers.length}] Querying DOT: ${dot}...`]);
-      
-      try {
-        if (!dot || dot === '' || dot === 'UNKNOWN') throw new Error("Invalid DOT");
-        const { policies } = await fetchInsuranceData(dot);
-        updatedCarriers[i] = { ...updatedCarriers[i], insurancePolicies: policies };
-        
-        // Save to Supabase
-        const saveResult = await updateCarrierInsurance(dot, { policies });
-        if (saveResult.success) {
-          dbSaved++;
-        }
-        
-        if (policies.length > 0) {
-          insFound++;
-          setLogs(prev => [...prev, `✨ Success: Extracted ${policies.length} insurance filings for ${dot} → DB synced`]);
-        } else {
-          setLogs(prev => [...prev, `⚠️ Info: No active insurance found for ${dot}`]);
-        }
-      } catch (err) {
-        insFailed++;
-        setLogs(prev => [...prev, `❌ Fail: Insurance timeout for DOT ${dot}`]);
-      }
 
-      setProgress(Math.round(((i + 1) / updatedCarriers.length) * 50));
-      setStats(prev => ({ ...prev, total: updatedCarriers.length, insFound, insFailed, dbSaved }));
-      
-      if ((i + 1) % 3 === 0 || (i + 1) === updatedCarriers.length) {
-          onUpdateCarriers([...updatedCarriers]);
+    const result = await startInsuranceJob(dotNumbers);
+    if (!result.success || !result.job) {
+      setLogs(prev => [...prev, `❌ Error: ${result.error}`]);
+      // Another admin's run is already going; watch that one instead
+      if (result.job) {
+        jobRef.current = result.job;
+        setJob(result.job);
       }
+      return;
     }
 
-    // --- STAGE 2: SAFETY RATING EXTRACTION ---
-    if (isRunningRef.current) {
-        setCurrentStage('SAFETY');
-        setLogs(prev => [...prev, `🛡️ STAGE 2: Safety Rating & BASIC Performance (FMCSA API)`]);
-        
-        let safetyFound = 0;
-        let safetyFailed = 0;
-
-        for (let i = 0; i < updatedCarriers.length; i++) {
-          if (!isRunningRef.current) break;
-          const dot = updatedCarriers[i].dotNumber;
-          
-          setLogs(prev => [...prev, `⏳ [SAFETY] [${i+1}/${updatedCarriers.length}] Querying DOT: ${dot}...`]);
-          
-          try {
-            if (!dot || dot === '' || dot === 'UNKNOWN') throw new Error("Invalid DOT");
-            const s = await fetchSafetyData(dot);
-            
-            updatedCarriers[i] = { 
-              ...updatedCarriers[i], 
-              safetyRating: s.rating,
-              safetyRatingDate: s.ratingDate,
-              basicScores: s.basicScores,
-              oosRates: s.oosRates
-            };
-            
-            // Save to Supabase
-            const saveResult = await updateCarrierSafety(dot, s);
-            if (saveResult.success) {
-              dbSaved++;
-            }
-            
-            if (s.rating !== 'N/A') {
-              safetyFound++;
-              setLogs(prev => [...prev, `✅ Safety: ${s.rating} rating captured for ${dot} → DB synced`]);
-            } else {
-              setLogs(prev => [...prev, `ℹ️ Safety: No formal rating on record for ${dot}`]);
-            }
-          } catch (err) {
-            safetyFailed++;
-            setLogs(prev => [...prev, `❌ Fail: Safety engine error for DOT ${dot}`]);
-          }
-
-          setProgress(50 + Math.round(((i + 1) / updatedCarriers.length) * 50));
-          setStats(prev => ({ ...prev, safetyFound, safetyFailed, dbSaved }));
-          
-          if ((i + 1) % 3 === 0 || (i + 1) === updatedCarriers.length) {
-              onUpdateCarriers([...updatedCarriers]);
-          }
-        }
-    }
+    lastEventIdRef.current = 0;
+    jobRef.current = result.job;
+    setJob(result.job);
+  };
 
-    setIsProcessing(false);
-    isRunningRef.current = false;
-    setCurrentStage('IDLE');
-    setLogs(prev => [...prev, `🎉 ENRICHMENT COMPLETE. Database fully synchronized.`]);
-    setLogs(prev => [...prev, `💾 Total Supabase updates: ${dbSaved}`]);
+  const stopEnrichmentProcess = async () => {
+    if (!job) return;
+    await cancelInsuranceJob(job.id);
+    setLogs(prev => [...prev, `⚠️ Stop requested. Finishing the current USDOT number...`]);
   };
 
   const handleManualCheck = async (e: React.FormEvent) => {
@@ -169,8 +189,8 @@ export const InsuranceScraper: React.FC<InsuranceScraperProps> = ({ carriers, on
     setIsManualLoading(true);
     setManualResult(null);
     try {
-      const { policies } = await fetchInsuranceData(manualDot);
-      const safety = await fetchSafetyData(manualDot);
+      const { policies } = await fetchInsuranceData(manualDot, manualForceRefresh);
+      const safety = await fetchSafetyData(manualDot, manualForceRefresh);
       setManualResult({ policies, safety });
     } catch (error) {
       console.error("Manual check failed", error);
@@ -223,7 +243,7 @@ export const InsuranceScraper: React.FC<InsuranceScraperProps> = ({ carriers, on
         </div>
         <div className="flex gap-4">
           <button 
-            onClick={() => isProcessing ? (isRunningRef.current = false) : startEnrichmentProcess()}
+            onClick={() => isProcessing ? stopEnrichmentProcess() : startEnrichmentProcess()}
             className={`flex items-center gap-3 px-8 py-3 rounded-2xl font-black transition-all shadow-2xl shadow-indigo-500/20 ${
                 isProcessing ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'
             }`}
@@ -279,6 +299,15 @@ export const InsuranceScraper: React.FC<InsuranceScraperProps> = ({ carriers, on
                     {isManualLoading ? <Loader2 size={20} className="animate-spin" /> : <Play size={20} />}
                   </button>
                 </div>
+                <label className="flex items-center gap-2 cursor-pointer text-xs text-slate-500">
+                  <input
+                    type="checkbox"
+                    checked={manualForceRefresh}
+                    onChange={(e) => setManualForceRefresh(e.target.checked)}
+                    className="w-3.5 h-3.5 rounded border-slate-600 text-indigo-600 bg-slate-900"
+                  />
+                  Bypass cache (fetch fresh from FMCSA)
+                </label>
              </form>
 
              {manualResult && (
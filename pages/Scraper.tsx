@@ -1,10 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Play, Download, Pause, Activity, Terminal as TerminalIcon, AlertCircle, CheckCircle2, ShieldCheck, Zap, Lock, Database } from 'lucide-react';
-import { CarrierData, ScraperConfig, User } from '../types';
-import { generateMockCarrier, scrapeRealCarrier, downloadCSV } from '../services/mockService';
+import { Play, Download, Pause, Activity, Terminal as TerminalIcon, AlertCircle, CheckCircle2, ShieldCheck, Zap, Lock, Database, Square, Bookmark, RotateCcw, Upload, Search } from 'lucide-react';
+import { CarrierData, CarrierSearchHit, JobEvent, ScrapeJob, ScraperConfig, User } from '../types';
+import { downloadCSV, scrapeRealCarrier } from '../services/mockService';
+import { createScrapeJob, controlScrapeJob, fetchScrapeJob, fetchScrapeJobs, searchCarriersByNameFromBackend, subscribeToJobEvents } from '../services/backendService';
 import { saveCarrierToSupabase } from '../services/supabaseClient';
+import { formatTarget, parseIdentifierList, ParsedIdentifierList } from '../services/identifierList';
 
-const CONCURRENCY_LIMIT = 5;
+const JOB_STORAGE_KEY = 'liveScraperJobId';
 
 interface ScraperProps {
   user: User;
@@ -14,25 +16,64 @@ interface ScraperProps {
   onFinish?: () => void;
 }
 
+// Terminal line for a streamed job event, or null for events the console skips
+const formatJobEvent = (event: JobEvent): string | null => {
+  switch (event.type) {
+    case 'success':
+      return `[Success] ${formatTarget(event.mcNumber || '')}: ${event.data?.legalName}`;
+    case 'db_save':
+      return event.data?.saved
+        ? `💾 ${formatTarget(event.mcNumber || '')} → Saved to DB`
+        : `[Error] ${formatTarget(event.mcNumber || '')} → DB Error: ${event.message}`;
+    case 'filtered':
+      return `[Skip] ${formatTarget(event.mcNumber || '')} - Filtered out (${event.message || 'unknown type'})`;
+    case 'not_found':
+      return `[Fail] ${formatTarget(event.mcNumber || '')} - No Data`;
+    case 'failed':
+      return `[Error] ${formatTarget(event.mcNumber || '')} - ${event.data?.reason ? `${event.data.reason}: ` : ''}${event.message}`;
+    case 'rate_limited':
+      return `⚠️ [Rate Limit] ${formatTarget(event.mcNumber || '')} - ${event.message}`;
+    default:
+      return null;
+  }
+};
+
 export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarriers, onUpgrade, onFinish }) => {
-  const [isRunning, setIsRunning] = useState(false);
+  const [job, setJob] = useState<ScrapeJob | null>(null);
   const [config, setConfig] = useState<ScraperConfig>({
     startPoint: '1580000',
     recordCount: 50,
     includeCarriers: true,
     includeBrokers: false,
     onlyAuthorized: true,
-    useMockData: false,
     useProxy: true,
+    skipFreshDays: 30,
   });
+  const [sourceMode, setSourceMode] = useState<'range' | 'list'>('range');
+  const [listFileName, setListFileName] = useState('');
+  const [parsedList, setParsedList] = useState<ParsedIdentifierList | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+  const [checkpoints, setCheckpoints] = useState<ScrapeJob[]>([]);
+  const [lookupMode, setLookupMode] = useState<'MC_MX' | 'USDOT' | 'NAME'>('USDOT');
+  const [lookupQuery, setLookupQuery] = useState('');
+  const [lookupHits, setLookupHits] = useState<CarrierSearchHit[]>([]);
+  const [isLookingUp, setIsLookingUp] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
   const [scrapedData, setScrapedData] = useState<CarrierData[]>([]);
-  const [progress, setProgress] = useState(0);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
-  const [dbSaveCount, setDbSaveCount] = useState(0);
   
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const isRunningRef = useRef(false);
+  const lastEventIdRef = useRef(0);
+  const lastStatusRef = useRef<string | null>(null);
+  const startedHereRef = useRef(false);
+  // Job successCount already charged to the daily limit by this tab
+  const countedSuccessRef = useRef(0);
+  const sessionResultsRef = useRef<CarrierData[]>([]);
+
+  const isRunning = job?.status === 'running' || job?.status === 'pending';
+  const isPaused = job?.status === 'paused';
+  const progress = job && job.total > 0 ? Math.round((job.nextIndex / job.total) * 100) : 0;
+  const dbSaveCount = job?.savedCount || 0;
 
   const scrollToBottom = () => {
     logsEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -42,131 +83,99 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
     scrollToBottom();
   }, [logs]);
 
-  const toggleRun = () => {
-    if (isRunning) {
-      setIsRunning(false);
-      isRunningRef.current = false;
-      setLogs(prev => [...prev, "⚠️ Process paused by user."]);
-    } else {
-      if (user.recordsExtractedToday >= user.dailyLimit) {
-        setShowUpgradeModal(true);
-        return;
-      }
-      setIsRunning(true);
-      isRunningRef.current = true;
-      setLogs(prev => [...prev, `🚀 Initializing High-Speed Scraper...`]);
-      setLogs(prev => [...prev, `Mode: ${config.useMockData ? 'Simulation' : config.useProxy ? 'Proxy Network' : 'Direct (VPN)'}`]);
-      setLogs(prev => [...prev, `Targeting ${config.recordCount} records starting at MC# ${config.startPoint}`]);
-      setLogs(prev => [...prev, `💾 Supabase integration: ACTIVE`]);
-      setScrapedData([]);
-      setProgress(0);
-      setDbSaveCount(0);
-      processScrapingConcurrent();
-    }
-  };
+  // Re-attach to the last job after a reload; it kept running on the server
+  useEffect(() => {
+    const savedJobId = localStorage.getItem(JOB_STORAGE_KEY);
+    if (!savedJobId) return;
 
-  const processScrapingConcurrent = async () => {
-    const start = parseInt(config.startPoint);
-    const total = config.recordCount;
-    let completed = 0;
-    
-    let sessionExtracted = 0;
-    const initialUsed = user.recordsExtractedToday;
-    const limit = user.dailyLimit;
-    
-    const tasks = Array.from({ length: total }, (_, i) => (start + i).toString());
-    const successfulResults: CarrierData[] = [];
-
-    const worker = async (mc: string) => {
-      if (!isRunningRef.current) return;
-
-      if (initialUsed + sessionExtracted >= limit) {
-        isRunningRef.current = false;
-        setIsRunning(false);
-        setLogs(prev => [...prev, "⛔ DAILY LIMIT REACHED: Upgrade to extract more."]);
-        setShowUpgradeModal(true);
+    fetchScrapeJob(savedJobId).then((savedJob) => {
+      if (!savedJob) {
+        localStorage.removeItem(JOB_STORAGE_KEY);
         return;
       }
+      lastStatusRef.current = savedJob.status;
+      setConfig(savedJob.config);
+      setJob(savedJob);
+      setLogs([`🔄 Reconnected to job ${savedJob.id.slice(0, 8)} (${savedJob.status})`]);
+    });
+    loadCheckpoints();
+  }, []);
+
+  // Stopped jobs that can be resumed or have failed MCs to retry
+  const loadCheckpoints = async () => {
+    const jobs = await fetchScrapeJobs(20);
+    setCheckpoints(jobs.filter(j => j.status !== 'running' && j.status !== 'pending'));
+  };
 
-      let newData: CarrierData | null = null;
-      try {
-        if (config.useMockData) {
-           await new Promise(r => setTimeout(r, 100));
-           const isBroker = config.includeBrokers && (!config.includeCarriers || Math.random() > 0.5);
-           newData = generateMockCarrier(mc, isBroker);
-        } else {
-           newData = await scrapeRealCarrier(mc, config.useProxy);
-        }
-      } catch (e) {
-        // Silent fail
+  // Stream the job's events; the server replays the log for late viewers
+  useEffect(() => {
+    if (!job) return;
+    return subscribeToJobEvents(`/api/scrape-jobs/${job.id}/events`, handleJobEvent);
+  }, [job?.id]);
+
+  const handleJobEvent = (event: JobEvent) => {
+    if (event.id <= lastEventIdRef.current) return;
+    lastEventIdRef.current = event.id;
+
+    if (event.type === 'job_status') {
+      const latest = event.data as ScrapeJob;
+      const previous = lastStatusRef.current;
+      lastStatusRef.current = latest.status;
+      setJob(latest);
+      if (startedHereRef.current && latest.successCount > countedSuccessRef.current) {
+        onUpdateUsage(latest.successCount - countedSuccessRef.current);
+        countedSuccessRef.current = latest.successCount;
       }
-
-      if (newData) {
-         let matchesFilter = true;
-         const type = newData.entityType.toUpperCase();
-         const isCarrier = type.includes('CARRIER');
-         const isBroker = type.includes('BROKER');
-         const status = newData.status.toUpperCase();
-
-         if (!config.includeCarriers && isCarrier && !isBroker) matchesFilter = false;
-         if (!config.includeBrokers && isBroker && !isCarrier) matchesFilter = false;
-         
-         if (config.onlyAuthorized) {
-             if (status.includes('NOT AUTHORIZED') || !status.includes('AUTHORIZED')) {
-                 matchesFilter = false;
-             }
-         }
-
-         if (matchesFilter) {
-             setScrapedData(prev => [...prev, newData!]);
-             successfulResults.push(newData!);
-             
-             const saveResult = await saveCarrierToSupabase(newData!);
-             if (saveResult.success) {
-               setDbSaveCount(prev => prev + 1);
-               setLogs(prev => [...prev, `[Success] MC ${mc}: ${newData!.legalName} → Saved to DB`]);
-             } else {
-               setLogs(prev => [...prev, `[Success] MC ${mc}: ${newData!.legalName} → DB Error: ${saveResult.error}`]);
-             }
-             
-             sessionExtracted++;
-             onUpdateUsage(1);
-         }
-      } else {
-         setLogs(prev => [...prev, `[Fail] MC ${mc} - No Data`]);
+      if (previous !== latest.status && latest.status !== 'running' && latest.status !== 'pending') {
+        handleJobStopped(latest);
       }
+      return;
+    }
 
-      completed++;
-      setProgress(Math.round((completed / total) * 100));
-    };
+    const line = formatJobEvent(event);
+    if (line) setLogs(prev => [...prev, line]);
 
-    const activePromises: Promise<void>[] = [];
-    
-    for (const mc of tasks) {
-      if (!isRunningRef.current) break;
+    if (event.type === 'success' && event.data) {
+      const carrier = event.data as CarrierData;
+      setScrapedData(prev => [...prev, carrier]);
+      sessionResultsRef.current.push(carrier);
+    }
+  };
 
-      const p = worker(mc).then(() => {
-        activePromises.splice(activePromises.indexOf(p), 1);
-      });
-      activePromises.push(p);
+  const handleJobStopped = (stopped: ScrapeJob) => {
+    loadCheckpoints();
 
-      if (activePromises.length >= CONCURRENCY_LIMIT) {
-        await Promise.race(activePromises);
-      }
+    if (stopped.status === 'paused') {
+      setLogs(prev => [...prev, `⏸️ Job "${stopped.name}" paused after ${formatTarget(stopped.lastProcessedMc || '')}. Resume to continue.`]);
+      return;
     }
 
-    await Promise.all(activePromises);
+    localStorage.removeItem(JOB_STORAGE_KEY);
 
-    if (successfulResults.length > 0) {
-      onNewCarriers(successfulResults);
+    if (stopped.status === 'failed') {
+      setLogs(prev => [...prev, `[Error] Job failed: ${stopped.error}`]);
+      return;
+    }
+    if (stopped.status === 'cancelled') {
+      setLogs(prev => [...prev, `⚠️ Job cancelled. Found ${stopped.successCount} records.`]);
+      return;
     }
 
-    setIsRunning(false);
-    isRunningRef.current = false;
-    setLogs(prev => [...prev, `✅ Batch Job Complete. Found ${successfulResults.length} records.`]);
-    setLogs(prev => [...prev, `💾 Database: ${dbSaveCount} records persisted to Supabase`]);
+    const found = sessionResultsRef.current;
+    if (found.length > 0) {
+      onNewCarriers(found);
+    }
 
-    if (onFinish && successfulResults.length > 0) {
+    setLogs(prev => [...prev, `✅ Batch Job Complete. Found ${stopped.successCount} records.`]);
+    setLogs(prev => [...prev, `💾 Database: ${stopped.savedCount} records persisted to Supabase`]);
+
+    if (stopped.maxResults !== null && stopped.successCount >= stopped.maxResults) {
+      setLogs(prev => [...prev, "⛔ DAILY LIMIT REACHED: Upgrade to extract more."]);
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    if (onFinish && startedHereRef.current && found.length > 0) {
       setLogs(prev => [...prev, `🚀 Transitioning to automatic insurance extraction...`]);
       setTimeout(() => {
         onFinish();
@@ -174,6 +183,177 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
     }
   };
 
+  // Store a single looked-up carrier and show it with the batch results
+  const addLookupCarrier = async (carrier: CarrierData) => {
+    const label = carrier.mcNumber ? `MC ${carrier.mcNumber}` : `USDOT ${carrier.dotNumber}`;
+    setLogs(prev => [...prev, `[Success] ${label}: ${carrier.legalName}`]);
+    setScrapedData(prev => [...prev, carrier]);
+    onNewCarriers([carrier]);
+    onUpdateUsage(1);
+
+    const saved = await saveCarrierToSupabase(carrier);
+    setLogs(prev => [...prev, saved.success ? `💾 ${label} → Saved to DB` : `[Error] ${label} → DB Error: ${saved.error}`]);
+  };
+
+  const lookupByDot = async (dotNumber: string) => {
+    const carrier = await scrapeRealCarrier(dotNumber, config.useProxy, 'USDOT');
+    if (carrier) await addLookupCarrier(carrier);
+    else setLogs(prev => [...prev, `[Fail] USDOT ${dotNumber} - No Data`]);
+  };
+
+  const runLookup = async () => {
+    const query = lookupQuery.trim();
+    if (!query) return;
+    if (user.recordsExtractedToday >= user.dailyLimit) {
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    setIsLookingUp(true);
+    setLookupHits([]);
+    try {
+      if (lookupMode === 'NAME') {
+        const hits = await searchCarriersByNameFromBackend(query);
+        setLogs(prev => [...prev, `🔎 "${query}": ${hits.length} SAFER match${hits.length === 1 ? '' : 'es'}`]);
+        // One hit opens directly; several are listed to pick from
+        if (hits.length === 1) await lookupByDot(hits[0].dotNumber);
+        else setLookupHits(hits);
+      } else if (lookupMode === 'USDOT') {
+        await lookupByDot(query.replace(/\D/g, ''));
+      } else {
+        const mcNumber = query.replace(/\D/g, '');
+        const carrier = await scrapeRealCarrier(mcNumber, config.useProxy);
+        if (carrier) await addLookupCarrier(carrier);
+        else setLogs(prev => [...prev, `[Fail] MC ${mcNumber} - No Data`]);
+      }
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const pickLookupHit = async (hit: CarrierSearchHit) => {
+    setIsLookingUp(true);
+    setLookupHits([]);
+    try {
+      await lookupByDot(hit.dotNumber);
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleListFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseIdentifierList(await file.text());
+    setListFileName(file.name);
+    setParsedList(parsed);
+  };
+
+  const startJob = async () => {
+    if (user.recordsExtractedToday >= user.dailyLimit) {
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    const isList = sourceMode === 'list';
+    if (isList && (!parsedList || parsedList.targets.length === 0)) {
+      setLogs([`[Error] Upload a CSV or TXT file with at least one MC or USDOT number`]);
+      return;
+    }
+
+    setLogs([
+      `🚀 Submitting scrape job to the server...`,
+      `Mode: ${config.useProxy ? 'Proxy Network' : 'Direct (VPN)'}`,
+      isList
+        ? `Targeting ${parsedList!.targets.length} MC/USDOT numbers from ${listFileName}`
+        : `Targeting ${config.recordCount} records starting at MC# ${config.startPoint}`,
+      `💾 Supabase integration: ACTIVE`
+    ]);
+    setScrapedData([]);
+    lastEventIdRef.current = 0;
+    sessionResultsRef.current = [];
+
+    const submitted: ScraperConfig = isList ? { ...config, identifiers: parsedList!.targets } : config;
+    const result = await createScrapeJob(submitted, user.dailyLimit - user.recordsExtractedToday, checkpointName);
+    if (!result.success || !result.job) {
+      setLogs(prev => [...prev, `[Error] Could not start job: ${result.error}`]);
+      return;
+    }
+
+    const summary = result.job.importSummary;
+    if (summary) {
+      setLogs(prev => [...prev, `📋 List: ${summary.queued} queued, ${summary.fresh} already fresh, ${summary.duplicates} duplicates, ${summary.invalid} invalid`]);
+    }
+    if (result.job.status === 'completed') {
+      setLogs(prev => [...prev, `✅ Nothing to scrape: every listed carrier was scraped in the last ${config.skipFreshDays} days.`]);
+      loadCheckpoints();
+      return;
+    }
+
+    startedHereRef.current = true;
+    countedSuccessRef.current = 0;
+    lastStatusRef.current = result.job.status;
+    localStorage.setItem(JOB_STORAGE_KEY, result.job.id);
+    setJob(result.job);
+    setCheckpointName('');
+    setLogs(prev => [...prev, `📡 Job "${result.job!.name}" running on the server. You can close this tab.`]);
+  };
+
+  // Resume a saved checkpoint, or start a new job over its failed MCs, and follow it here
+  const runCheckpoint = async (checkpoint: ScrapeJob, action: 'resume' | 'retry-failed') => {
+    if (user.recordsExtractedToday >= user.dailyLimit) {
+      setShowUpgradeModal(true);
+      return;
+    }
+
+    const result = await controlScrapeJob(checkpoint.id, action, user.dailyLimit - user.recordsExtractedToday);
+    if (!result.success || !result.job) {
+      setLogs(prev => [...prev, `[Error] Could not ${action === 'resume' ? 'resume' : 'retry'} "${checkpoint.name}": ${result.error}`]);
+      return;
+    }
+
+    const attached = result.job;
+    setLogs([
+      action === 'resume'
+        ? `▶️ Resuming "${attached.name}" after ${attached.lastProcessedMc ? formatTarget(attached.lastProcessedMc) : 'the start'}`
+        : `🔁 Retrying ${attached.total} failed MCs from "${checkpoint.name}"`,
+      `📡 Job ${attached.id.slice(0, 8)} running on the server. You can close this tab.`
+    ]);
+    setScrapedData([]);
+    lastEventIdRef.current = 0;
+    sessionResultsRef.current = [];
+    startedHereRef.current = true;
+    countedSuccessRef.current = attached.successCount;
+    lastStatusRef.current = attached.status;
+    localStorage.setItem(JOB_STORAGE_KEY, attached.id);
+    setConfig(attached.config);
+    setJob(attached);
+    loadCheckpoints();
+  };
+
+  const runJobAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!job) return;
+    const result = await controlScrapeJob(job.id, action, action === 'resume' ? user.dailyLimit - user.recordsExtractedToday : undefined);
+    if (!result.success) {
+      setLogs(prev => [...prev, `[Error] Could not ${action} job: ${result.error}`]);
+      return;
+    }
+
+    // Status changes arrive on the event stream
+    if (action === 'pause') setLogs(prev => [...prev, "⚠️ Pause requested. Finishing the current batch..."]);
+    if (action === 'resume') setLogs(prev => [...prev, `▶️ Resuming job ${job.id.slice(0, 8)}...`]);
+    if (action === 'cancel') setLogs(prev => [...prev, "⚠️ Cancel requested."]);
+  };
+
+  const toggleRun = () => {
+    if (isRunning) {
+      runJobAction('pause');
+    } else if (isPaused) {
+      runJobAction('resume');
+    } else {
+      startJob();
+    }
+  };
+
   const handleDownload = () => {
     if (scrapedData.length === 0) return;
     downloadCSV(scrapedData);
@@ -215,6 +395,15 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
               Export Batch
             </button>
            )}
+          {(isRunning || isPaused) && (
+            <button
+              onClick={() => runJobAction('cancel')}
+              className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-medium transition-all"
+            >
+              <Square size={18} />
+              Cancel
+            </button>
+          )}
           <button
             onClick={toggleRun}
             className={`flex items-center gap-2 px-8 py-3 rounded-xl font-bold transition-all shadow-lg shadow-indigo-500/25 ${
@@ -223,7 +412,7 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
               : 'bg-indigo-600 hover:bg-indigo-500 text-white'
             }`}
           >
-            {isRunning ? <><Pause size={20} /> Stop</> : <><Play size={20} /> Start Extraction</>}
+            {isRunning ? <><Pause size={20} /> Pause</> : isPaused ? <><Play size={20} /> Resume</> : <><Play size={20} /> Start Extraction</>}
           </button>
         </div>
       </div>
@@ -240,28 +429,96 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
             
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-slate-400 mb-1">Start MC Number</label>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Checkpoint Name</label>
                 <input 
                   type="text" 
-                  value={config.startPoint}
-                  onChange={(e) => setConfig({...config, startPoint: e.target.value})}
+                  value={checkpointName}
+                  onChange={(e) => setCheckpointName(e.target.value)}
                   className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
-                  placeholder="e.g. 1580000"
-                  disabled={isRunning}
+                  placeholder={sourceMode === 'list' ? `List of ${parsedList?.targets.length || 0}` : `MC ${config.startPoint} +${config.recordCount}`}
+                  disabled={isRunning || isPaused}
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-slate-400 mb-1">Number of Records</label>
-                <input 
-                  type="number" 
-                  value={config.recordCount}
-                  onChange={(e) => setConfig({...config, recordCount: parseInt(e.target.value)})}
-                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
-                  disabled={isRunning}
-                />
+              <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-700">
+                {(['range', 'list'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSourceMode(mode)}
+                    disabled={isRunning || isPaused}
+                    className={`flex-1 py-2 rounded-md text-xs font-bold transition-all ${sourceMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {mode === 'range' ? 'MC Range' : 'Upload List'}
+                  </button>
+                ))}
               </div>
 
+              {sourceMode === 'range' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Start MC Number</label>
+                    <input 
+                      type="text" 
+                      value={config.startPoint}
+                      onChange={(e) => setConfig({...config, startPoint: e.target.value})}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                      placeholder="e.g. 1580000"
+                      disabled={isRunning || isPaused}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Number of Records</label>
+                    <input 
+                      type="number" 
+                      value={config.recordCount}
+                      onChange={(e) => setConfig({...config, recordCount: parseInt(e.target.value)})}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                      disabled={isRunning || isPaused}
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">MC / USDOT List</label>
+                    <label className={`flex items-center gap-2 w-full bg-slate-900 border border-dashed border-slate-600 rounded-lg px-4 py-3 text-sm ${isRunning || isPaused ? 'opacity-50' : 'cursor-pointer hover:border-indigo-500'}`}>
+                      <Upload size={16} className="text-indigo-400" />
+                      <span className="truncate text-slate-300">{listFileName || 'Choose a CSV or TXT file'}</span>
+                      <input
+                        type="file"
+                        accept=".csv,.txt,text/csv,text/plain"
+                        onChange={(e) => handleListFile(e.target.files?.[0])}
+                        className="hidden"
+                        disabled={isRunning || isPaused}
+                      />
+                    </label>
+                    {parsedList && (
+                      <p className="text-[11px] text-slate-500 mt-2">
+                        {parsedList.targets.filter(t => !t.startsWith('DOT')).length} MC · {parsedList.targets.filter(t => t.startsWith('DOT')).length} USDOT · {parsedList.duplicates} duplicates · {parsedList.invalid.length} invalid
+                      </p>
+                    )}
+                    {parsedList && parsedList.invalid.length > 0 && (
+                      <p className="text-[10px] text-red-400 mt-1 truncate" title={parsedList.invalid.join(', ')}>
+                        Skipped: {parsedList.invalid.slice(0, 5).join(', ')}{parsedList.invalid.length > 5 ? '…' : ''}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Skip Carriers Scraped Within (days)</label>
+                    <input 
+                      type="number" 
+                      min={0}
+                      value={config.skipFreshDays ?? 30}
+                      onChange={(e) => setConfig({...config, skipFreshDays: Math.max(0, parseInt(e.target.value) || 0)})}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                      disabled={isRunning || isPaused}
+                    />
+                  </div>
+                </>
+              )}
+
               <div className="bg-slate-900 p-4 rounded-xl border border-slate-700">
                 <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-3">Connection Mode</label>
                 <div className="space-y-3">
@@ -275,13 +532,13 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
                         checked={config.useProxy} 
                         onChange={(e) => setConfig({...config, useProxy: e.target.checked})}
                         className="w-4 h-4 rounded border-slate-600 text-indigo-600 bg-slate-900" 
-                        disabled={isRunning}
+                        disabled={isRunning || isPaused}
                       />
                   </label>
                   <p className="text-[10px] text-slate-500">
                     {config.useProxy 
-                      ? "Routes requests through our servers. Best for compatibility." 
-                      : "Direct connection. Requires VPN and CORS extension. Fastest."}
+                      ? "Rotates requests through the server's proxy pool. Best for compatibility." 
+                      : "The server connects to FMCSA directly. Fastest."}
                   </p>
                 </div>
               </div>
@@ -295,7 +552,7 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
                       checked={config.includeCarriers} 
                       onChange={(e) => setConfig({...config, includeCarriers: e.target.checked})}
                       className="w-4 h-4 rounded border-slate-600 text-indigo-600 focus:ring-indigo-500 bg-slate-900" 
-                      disabled={isRunning}
+                      disabled={isRunning || isPaused}
                     />
                     <span className="text-white">Carriers</span>
                   </label>
@@ -305,7 +562,7 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
                       checked={config.includeBrokers} 
                       onChange={(e) => setConfig({...config, includeBrokers: e.target.checked})}
                       className="w-4 h-4 rounded border-slate-600 text-indigo-600 focus:ring-indigo-500 bg-slate-900" 
-                      disabled={isRunning}
+                      disabled={isRunning || isPaused}
                     />
                     <span className="text-white">Brokers</span>
                   </label>
@@ -319,27 +576,64 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
                       checked={config.onlyAuthorized} 
                       onChange={(e) => setConfig({...config, onlyAuthorized: e.target.checked})}
                       className="w-4 h-4 rounded border-slate-600 text-indigo-600 focus:ring-indigo-500 bg-slate-900" 
-                      disabled={isRunning}
+                      disabled={isRunning || isPaused}
                     />
                     <span className="text-white">Only Authorized Status</span>
                 </label>
-                
-                <div className="bg-slate-900 p-3 rounded-lg border border-slate-700 opacity-50">
-                    <label className="flex items-center justify-between cursor-pointer">
-                        <span className="text-xs text-slate-400">Mock Mode (Simulation)</span>
-                        <input 
-                          type="checkbox" 
-                          checked={config.useMockData} 
-                          onChange={(e) => setConfig({...config, useMockData: e.target.checked})}
-                          className="w-4 h-4 rounded border-slate-600 text-indigo-600 bg-slate-900" 
-                          disabled={isRunning}
-                        />
-                    </label>
-                </div>
               </div>
             </div>
           </div>
 
+          <div className="bg-slate-800/50 border border-slate-700 p-6 rounded-2xl space-y-4">
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <Search className="text-indigo-400" />
+              Quick Lookup
+            </h2>
+            <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-700">
+              {([['USDOT', 'USDOT'], ['MC_MX', 'MC'], ['NAME', 'Name']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => { setLookupMode(mode); setLookupHits([]); }}
+                  className={`flex-1 py-2 rounded-md text-xs font-bold transition-all ${lookupMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={lookupQuery}
+                onChange={(e) => setLookupQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && runLookup()}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                placeholder={lookupMode === 'NAME' ? 'Company name' : lookupMode === 'USDOT' ? 'e.g. 3456789' : 'e.g. 1580000'}
+              />
+              <button
+                onClick={runLookup}
+                disabled={isLookingUp || !lookupQuery.trim()}
+                className="px-4 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-bold transition-all disabled:opacity-50"
+              >
+                <Search size={16} className={isLookingUp ? 'animate-pulse' : ''} />
+              </button>
+            </div>
+            {lookupHits.length > 0 && (
+              <div className="max-h-56 overflow-y-auto space-y-2">
+                {lookupHits.map(hit => (
+                  <button
+                    key={hit.dotNumber}
+                    onClick={() => pickLookupHit(hit)}
+                    disabled={isLookingUp}
+                    className="w-full text-left bg-slate-900 hover:bg-slate-700/50 p-3 rounded-xl border border-slate-700 transition-colors disabled:opacity-50"
+                  >
+                    <div className="text-sm text-white font-medium truncate">{hit.legalName}</div>
+                    <div className="text-[11px] text-slate-500">USDOT {hit.dotNumber}{hit.location ? ` · ${hit.location}` : ''}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div className="bg-slate-800/50 border border-slate-700 p-6 rounded-2xl">
              <div className="flex justify-between text-sm mb-2">
                <span className="text-slate-400">Batch Progress</span>
@@ -375,6 +669,49 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
                </div>
              </div>
           </div>
+
+          <div className="bg-slate-800/50 border border-slate-700 p-6 rounded-2xl">
+            <h2 className="text-lg font-bold text-white flex items-center gap-2 mb-4">
+              <Bookmark className="text-indigo-400" />
+              Checkpoints
+            </h2>
+            {checkpoints.length === 0 ? (
+              <p className="text-xs text-slate-500">Stopped and finished runs show up here to resume or retry.</p>
+            ) : (
+              <div className="space-y-3">
+                {checkpoints.map(checkpoint => {
+                  const canResume = checkpoint.status !== 'cancelled' && checkpoint.nextIndex < checkpoint.total;
+                  return (
+                    <div key={checkpoint.id} className="bg-slate-900 p-3 rounded-xl border border-slate-700">
+                      <div className="flex justify-between items-start gap-2">
+                        <span className="text-sm text-white font-medium truncate" title={checkpoint.name}>{checkpoint.name}</span>
+                        <span className="text-[10px] uppercase font-bold text-slate-500">{checkpoint.status}</span>
+                      </div>
+                      <div className="text-[11px] text-slate-500 mt-1">
+                        {checkpoint.nextIndex}/{checkpoint.total} · Last {checkpoint.lastProcessedMc ? formatTarget(checkpoint.lastProcessedMc) : '-'} · {checkpoint.failedCount} failed
+                      </div>
+                      <div className="flex gap-2 mt-3">
+                        <button
+                          onClick={() => runCheckpoint(checkpoint, 'resume')}
+                          disabled={!canResume || isRunning || isPaused}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold transition-all disabled:opacity-40"
+                        >
+                          <Play size={12} /> Resume
+                        </button>
+                        <button
+                          onClick={() => runCheckpoint(checkpoint, 'retry-failed')}
+                          disabled={checkpoint.failedCount === 0 || isRunning || isPaused}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-xs font-bold transition-all disabled:opacity-40"
+                        >
+                          <RotateCcw size={12} /> Retry Failed
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="col-span-12 lg:col-span-8 flex flex-col gap-6 h-full min-h-0">
@@ -440,7 +777,7 @@ export const Scraper: React.FC<ScraperProps> = ({ user, onUpdateUsage, onNewCarr
                   ) : (
                     scrapedData.slice().reverse().map((row, i) => (
                       <tr key={i} className="hover:bg-slate-700/50 transition-colors">
-                        <td className="p-3 font-mono text-white">{row.mcNumber}</td>
+                        <td className="p-3 font-mono text-white">{row.mcNumber || `DOT ${row.dotNumber}`}</td>
                         <td className="p-3 truncate max-w-[150px]" title={row.legalName}>{row.legalName}</td>
                         {/* FIXED: Display full physical address */}
                         <td className="p-3 truncate max-w-[200px] text-xs" title={row.physicalAddress || row.address}>
@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseRegisterPage, parseRegisterTitle, UNPLACED_CATEGORY } from '../fmcsaRegister';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseRegisterPage', () => {
+  const page = parseRegisterPage(fixture('register-sections.html'));
+  const categoryOf = (number: string) => page.entries.find(e => e.number === number)?.category;
+
+  it('assigns each docket to the section it sits under', () => {
+    expect(page.entries.map(e => [e.number, e.category])).toEqual([
+      ['MC-900001', UNPLACED_CATEGORY],
+      ['MC-100001', 'NAME CHANGE'],
+      ['MC-100002', 'NAME CHANGE'],
+      ['MC-200001', 'CERTIFICATE, PERMIT, LICENSE'],
+      ['FF-200002', 'CERTIFICATE, PERMIT, LICENSE'],
+      ['MX-200003', 'CERTIFICATE, PERMIT, LICENSE'],
+      ['MC-300001', 'REVOCATION'],
+      ['MC-300002', 'REVOCATION'],
+      ['MC-400001', 'DISMISSAL'],
+    ]);
+  });
+
+  it('does not open a section for a carrier name containing a header word', () => {
+    expect(categoryOf('MC-200001')).toBe('CERTIFICATE, PERMIT, LICENSE');
+    expect(page.sectionCounts['TRANSFERS']).toBe(0);
+  });
+
+  it('accepts headers with a trailing count or colon', () => {
+    expect(categoryOf('MC-300001')).toBe('REVOCATION');
+    expect(categoryOf('MC-400001')).toBe('DISMISSAL');
+  });
+
+  it('counts unique entries per section, including empty sections', () => {
+    expect(page.sectionCounts).toEqual({
+      'NAME CHANGE': 2,
+      'CERTIFICATE, PERMIT, LICENSE': 3,
+      'CERTIFICATE OF REGISTRATION': 0,
+      'DISMISSAL': 1,
+      'WITHDRAWAL': 0,
+      'REVOCATION': 2,
+      'MISCELLANEOUS': 0,
+      'TRANSFERS': 0,
+      'GRANT DECISION NOTICES': 0,
+      [UNPLACED_CATEGORY]: 1,
+    });
+  });
+
+  it('reports dockets above the first header as unplaced', () => {
+    expect(page.unplaced).toEqual(['MC-900001']);
+  });
+
+  it('parses docket and title fields of each entry', () => {
+    expect(page.entries.find(e => e.number === 'MC-100001')).toMatchObject({
+      decided: '12/01/2025',
+      docketPrefix: 'MC',
+      docketNumber: '100001',
+      legalName: 'ACME LLC',
+      dbaName: 'ACME FREIGHT',
+      city: 'HOUSTON',
+      state: 'TX',
+    });
+  });
+
+  it('leaves every entry unplaced when the page has no section headers', () => {
+    const bare = parseRegisterPage(fixture('register-no-headers.html'));
+
+    expect(bare.entries.every(e => e.category === UNPLACED_CATEGORY)).toBe(true);
+    expect(bare.unplaced).toEqual(['MC-500001', 'MC-500002']);
+    expect(bare.sectionCounts[UNPLACED_CATEGORY]).toBe(2);
+    expect(bare.sectionCounts['NAME CHANGE']).toBe(0);
+  });
+});
+
+describe('parseRegisterTitle', () => {
+  it('splits legal name, DBA, city and state', () => {
+    expect(parseRegisterTitle('MIDWEST MOVERS LLC D/B/A MM MOVING - DES MOINES, IA')).toEqual({
+      legalName: 'MIDWEST MOVERS LLC',
+      dbaName: 'MM MOVING',
+      city: 'DES MOINES',
+      state: 'IA',
+    });
+  });
+
+  it('drops a trailing ZIP from the location', () => {
+    expect(parseRegisterTitle('GLOBAL FORWARDING CORP - NEWARK, NJ 07102')).toMatchObject({ city: 'NEWARK', state: 'NJ' });
+  });
+
+  it('keeps the whole title as the legal name without a location', () => {
+    expect(parseRegisterTitle('TRANSPORTES DEL NORTE SA DE CV')).toEqual({
+      legalName: 'TRANSPORTES DEL NORTE SA DE CV',
+      dbaName: '',
+      city: '',
+      state: '',
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCoverageAmount, normalizeInsurancePolicies, normalizeInsurancePolicy } from '../insuranceScraper';
+
+describe('normalizeCoverageAmount', () => {
+  it('scales amounts below 10,000 from thousands to dollars', () => {
+    expect(normalizeCoverageAmount(750)).toBe('$750,000');
+    expect(normalizeCoverageAmount('1000')).toBe('$1,000,000');
+    expect(normalizeCoverageAmount(9999)).toBe('$9,999,000');
+  });
+
+  it('keeps amounts of 10,000 and above as dollars', () => {
+    expect(normalizeCoverageAmount(10000)).toBe('$10,000');
+    expect(normalizeCoverageAmount('750000')).toBe('$750,000');
+  });
+
+  it('returns N/A for blank and N/A amounts', () => {
+    expect(normalizeCoverageAmount(undefined)).toBe('N/A');
+    expect(normalizeCoverageAmount(null)).toBe('N/A');
+    expect(normalizeCoverageAmount('')).toBe('N/A');
+    expect(normalizeCoverageAmount('N/A')).toBe('N/A');
+  });
+
+  it('passes non-numeric amounts through as text', () => {
+    expect(normalizeCoverageAmount('SEE FILING')).toBe('SEE FILING');
+  });
+});
+
+describe('normalizeInsurancePolicy', () => {
+  const raw = {
+    name_company: 'Great West Casualty',
+    policy_no: 'gw-123',
+    effective_date: '2025-01-15 00:00:00',
+    max_cov_amount: 750,
+    ins_type_code: 1,
+    ins_class_code: 'p',
+  };
+
+  it('maps type codes 1, 2 and 3 to BI&PD, CARGO and BOND', () => {
+    expect(normalizeInsurancePolicy({ ...raw, ins_type_code: 1 }, '123').type).toBe('BI&PD');
+    expect(normalizeInsurancePolicy({ ...raw, ins_type_code: '2' }, '123').type).toBe('CARGO');
+    expect(normalizeInsurancePolicy({ ...raw, ins_type_code: 3 }, '123').type).toBe('BOND');
+  });
+
+  it('maps class codes P and E to PRIMARY and EXCESS', () => {
+    expect(normalizeInsurancePolicy({ ...raw, ins_class_code: 'P' }, '123').class).toBe('PRIMARY');
+    expect(normalizeInsurancePolicy({ ...raw, ins_class_code: 'e' }, '123').class).toBe('EXCESS');
+  });
+
+  it('normalizes the carrier, policy number, date and coverage', () => {
+    expect(normalizeInsurancePolicy(raw, '123')).toEqual({
+      dot: '123',
+      carrier: 'GREAT WEST CASUALTY',
+      policyNumber: 'GW-123',
+      effectiveDate: '2025-01-15',
+      coverageAmount: '$750,000',
+      type: 'BI&PD',
+      class: 'PRIMARY',
+    });
+  });
+
+  it('falls back when fields are missing', () => {
+    expect(normalizeInsurancePolicy({}, '123')).toEqual({
+      dot: '123',
+      carrier: 'NOT SPECIFIED',
+      policyNumber: 'N/A',
+      effectiveDate: 'N/A',
+      coverageAmount: 'N/A',
+      type: 'N/A',
+      class: 'N/A',
+    });
+  });
+});
+
+describe('normalizeInsurancePolicies', () => {
+  it('accepts a { data } payload or a bare array', () => {
+    const filing = { ins_type_code: 2, max_cov_amount: 100 };
+    expect(normalizeInsurancePolicies({ data: [filing] }, '9')).toHaveLength(1);
+    expect(normalizeInsurancePolicies([filing, filing], '9')).toHaveLength(2);
+    expect(normalizeInsurancePolicies(null, '9')).toEqual([]);
+  });
+});
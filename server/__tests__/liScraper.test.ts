@@ -0,0 +1,23 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseLiCarrierDetail } from '../liScraper';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseLiCarrierDetail', () => {
+  const details = parseLiCarrierDetail(fixture('li-carrier-detail.html'));
+
+  it('reads the BOC-3 status and blanket process agent', () => {
+    expect(details.boc3OnFile).toBe(true);
+    expect(details.boc3Agent).toBe('PROCESS AGENTS OF AMERICA INC');
+  });
+
+  it('takes reps only from the company officer and representative labels', () => {
+    expect(details.companyReps).toEqual(['JANE DOE', 'JOHN ROE']);
+  });
+
+  it('leaves BOC-3 unknown when the page has no BOC-3 row', () => {
+    const empty = parseLiCarrierDetail('<table><tr><th>Legal Name:</th><td>ACME FREIGHT LLC</td></tr></table>');
+    expect(empty).toEqual({ boc3OnFile: null, boc3Agent: '', companyReps: [] });
+  });
+});
@@ -0,0 +1,42 @@
+import { DEFAULT_BACKFILL_DELAY_MS, runRegisterBackfill } from './registerBackfill';
+
+/**
+ * Backfill the FMCSA Register from the command line:
+ *   pnpm run backfill:register -- --from 2026-01-01 --to 2026-01-31 [--delay 3000] [--enrich]
+ */
+const readArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const main = async () => {
+  const from = readArg('from');
+  const to = readArg('to') || from;
+  const delay = readArg('delay');
+  const enrich = process.argv.includes('--enrich');
+
+  if (!from || !to) {
+    console.error('Usage: backfill:register -- --from YYYY-MM-DD [--to YYYY-MM-DD] [--delay ms] [--enrich]');
+    process.exit(1);
+  }
+
+  const summary = await runRegisterBackfill({
+    from,
+    to,
+    delayMs: delay ? Number(delay) : DEFAULT_BACKFILL_DELAY_MS,
+    enrich,
+    onDay: (result) => {
+      const icon = result.status === 'success' ? '✅' : result.status === 'empty' ? '⚪' : '❌';
+      console.log(`${icon} ${result.date}: ${result.status} (${result.entryCount} entries)${result.error ? ` - ${result.error}` : ''}`);
+    }
+  });
+
+  const failed = summary.results.filter(r => r.status === 'failed').length;
+  console.log(`📅 Done: ${summary.results.length} fetched, ${summary.skipped.length} already stored, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+};
+
+main().catch((error) => {
+  console.error('❌ Backfill failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,208 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { CarrierData, CarrierSearchHit } from '../types';
+import { cleanText, cfDecodeEmail, fetchHtml, findValueByLabel } from './scraperUtils';
+import { cachedLookup, LookupOptions } from './responseCache';
+import { buildSafetySummary, SummaryTable } from '../services/carrierFields';
+import { scrapeLiCarrierDetails } from './liScraper';
+
+const SAFER_SNAPSHOT_URL = 'https://safer.fmcsa.dot.gov/query.asp';
+
+// Collect the label next to every cell marked "X" in a SAFER checkbox table
+const findMarked = ($: CheerioAPI, summary: string): string[] => {
+  const table = $(`table[summary="${summary}"]`);
+  if (!table.length) return [];
+  const res: string[] = [];
+  table.find('td').each((_, cell) => {
+    if ($(cell).text().trim() === 'X') {
+      const next = $(cell).next();
+      if (next.length) res.push(cleanText(next.text()));
+    }
+  });
+  return res;
+};
+
+// Read the first SAFER table with this summary (the US one; Canada's follows) by row and column heading
+const readSummaryTable = ($: CheerioAPI, summary: string): SummaryTable => {
+  const table = $(`table[summary="${summary}"]`).first();
+  const result: SummaryTable = {};
+  if (!table.length) return result;
+
+  const rows = table.find('tr');
+  const headings = rows.first().find('th, td').map((_, cell) => cleanText($(cell).text())).get();
+  rows.slice(1).each((_, row) => {
+    const cells = $(row).find('th, td');
+    const label = cleanText(cells.first().text());
+    if (!label) return;
+    result[label] = {};
+    cells.slice(1).each((i, cell) => {
+      if (headings[i + 1]) result[label][headings[i + 1]] = cleanText($(cell).text());
+    });
+  });
+  return result;
+};
+
+/**
+ * Look up the carrier's email on the SMS Carrier Registration page.
+ * Returns an empty string when no email is listed or the page can't be fetched.
+ */
+export const fetchCarrierEmailFromSMS = async (dotNumber: string, options?: LookupOptions): Promise<string> => {
+  if (!dotNumber || dotNumber === 'UNKNOWN') return '';
+
+  try {
+    return await cachedLookup('sms', `registration:${dotNumber}`, async () => {
+      const html = await fetchHtml(`https://ai.fmcsa.dot.gov/SMS/Carrier/${dotNumber}/CarrierRegistration.aspx`, options);
+      if (!html) return '';
+
+      const $ = cheerio.load(html);
+      let email = '';
+      $('label').each((_, label) => {
+        if (!$(label).text().includes('Email:')) return;
+        const parent = $(label).parent();
+        const cfEmail = parent.find('[data-cfemail]').first();
+        if (cfEmail.length) {
+          email = cfDecodeEmail(cfEmail.attr('data-cfemail') || '');
+          return false;
+        }
+        const text = cleanText(parent.text().replace('Email:', ''));
+        if (text && text.includes('@')) {
+          email = text;
+          return false;
+        }
+      });
+      return email;
+    }, options);
+  } catch (error: any) {
+    console.error(`⚠️ SMS email lookup failed for DOT ${dotNumber}:`, error.message);
+    return '';
+  }
+};
+
+const fetchCarrierSnapshot = async (
+  number: string,
+  queryParam: 'MC_MX' | 'USDOT',
+  options?: LookupOptions
+): Promise<CarrierData | null> => {
+  const params = new URLSearchParams({
+    searchtype: 'ANY',
+    query_type: 'queryCarrierSnapshot',
+    query_param: queryParam,
+    query_string: number,
+  });
+
+  const html = await fetchHtml(`${SAFER_SNAPSHOT_URL}?${params.toString()}`, options);
+  if (!html) return null;
+
+  const $ = cheerio.load(html);
+  if (!$('center').length) return null;
+
+  const getVal = (label: string) => findValueByLabel($, label);
+
+  // A USDOT lookup learns the MC number from the snapshot's docket list
+  const docket = getVal('MC/MX/FF Number(s):').match(/(?:MC|MX)-?\s*(\d+)/i);
+  const mcNumber = queryParam === 'MC_MX' ? number : docket ? docket[1] : '';
+
+  const carrier: CarrierData = {
+    mcNumber,
+    dotNumber: getVal('USDOT Number:'),
+    legalName: getVal('Legal Name:'),
+    dbaName: getVal('DBA Name:'),
+    entityType: getVal('Entity Type:'),
+    status: getVal('Operating Authority Status:'),
+    email: '',
+    phone: getVal('Phone:'),
+    powerUnits: getVal('Power Units:'),
+    drivers: getVal('Drivers:'),
+    physicalAddress: findValueByLabel($, 'Physical Address:', ', '),
+    mailingAddress: findValueByLabel($, 'Mailing Address:', ', '),
+    dateScraped: new Date().toLocaleDateString('en-US'),
+    mcs150Date: getVal('MCS-150 Form Date:'),
+    mcs150Mileage: getVal('MCS-150 Mileage (Year):'),
+    operationClassification: findMarked($, 'Operation Classification'),
+    carrierOperation: findMarked($, 'Carrier Operation'),
+    cargoCarried: findMarked($, 'Cargo Carried'),
+    outOfServiceDate: getVal('Out of Service Date:'),
+    stateCarrierId: getVal('State Carrier ID Number:'),
+    dunsNumber: getVal('DUNS Number:'),
+    safetySummary: buildSafetySummary(
+      readSummaryTable($, 'Inspections'),
+      readSummaryTable($, 'Crashes'),
+      cleanText($('body').text()).match(/Total Inspections:\s*([\d,]+)/)?.[1] || ''
+    )
+  };
+
+  // SAFER returns a "record not found" page that still has a <center> tag
+  if (!carrier.dotNumber && !carrier.legalName) return null;
+
+  if (carrier.dotNumber) {
+    carrier.email = await fetchCarrierEmailFromSMS(carrier.dotNumber, options);
+
+    const li = await scrapeLiCarrierDetails(carrier.dotNumber, options);
+    if (li) {
+      carrier.boc3OnFile = li.boc3OnFile;
+      carrier.boc3Agent = li.boc3Agent;
+      carrier.companyReps = li.companyReps;
+    }
+  }
+
+  return carrier;
+};
+
+/**
+ * Scrape the SAFER Company Snapshot for an MC/MX number, or for a USDOT number with
+ * queryParam 'USDOT'. Returns null when SAFER has no record. Answers are cached per
+ * number unless options.forceRefresh is set.
+ */
+export const scrapeCarrierSnapshot = (
+  number: string,
+  queryParam: 'MC_MX' | 'USDOT' = 'MC_MX',
+  options?: LookupOptions
+): Promise<CarrierData | null> =>
+  cachedLookup('safer', `${queryParam}:${number}`, () => fetchCarrierSnapshot(number, queryParam, options), options);
+
+/**
+ * Search SAFER by legal or DBA name. Returns every listed match, best first as SAFER
+ * orders them; an empty list when nothing matches.
+ */
+export const searchCarriersByName = async (name: string): Promise<CarrierSearchHit[]> => {
+  const params = new URLSearchParams({
+    searchtype: 'ANY',
+    query_type: 'queryCarrierSnapshot',
+    query_param: 'NAME',
+    query_string: name,
+  });
+
+  const html = await fetchHtml(`${SAFER_SNAPSHOT_URL}?${params.toString()}`);
+  if (!html) return [];
+
+  const $ = cheerio.load(html);
+  const hits: CarrierSearchHit[] = [];
+  const seen = new Set<string>();
+
+  $('a[href*="query_param=USDOT"]').each((_, link) => {
+    const href = $(link).attr('href') || '';
+    const dot = href.match(/query_string=(\d+)/);
+    if (!dot || seen.has(dot[1])) return;
+    seen.add(dot[1]);
+
+    hits.push({
+      dotNumber: dot[1],
+      legalName: cleanText($(link).text()),
+      location: cleanText($(link).closest('tr').find('td').first().text()),
+    });
+  });
+
+  // A unique match can come back as the snapshot itself rather than a list
+  if (hits.length === 0) {
+    const dotNumber = findValueByLabel($, 'USDOT Number:');
+    if (dotNumber) {
+      hits.push({
+        dotNumber,
+        legalName: findValueByLabel($, 'Legal Name:'),
+        location: findValueByLabel($, 'Physical Address:'),
+      });
+    }
+  }
+
+  return hits;
+};
@@ -0,0 +1,147 @@
+import { CarrierData, InsurancePolicy } from '../types';
+import { SafetyData } from './safetyScraper';
+import { getSupabase } from './supabase';
+import { insuranceColumns, oosPercentColumns, typedCarrierColumns } from '../services/carrierFields';
+
+/**
+ * Map a scraped carrier onto a `carriers` row, same shape as saveCarrierToSupabase.
+ */
+export const carrierToRecord = (carrier: CarrierData) => ({
+  mc_number: carrier.mcNumber || null,
+  dot_number: carrier.dotNumber,
+  legal_name: carrier.legalName,
+  dba_name: carrier.dbaName || null,
+  entity_type: carrier.entityType,
+  status: carrier.status,
+  email: carrier.email || null,
+  phone: carrier.phone || null,
+  power_units: carrier.powerUnits || null,
+  drivers: carrier.drivers || null,
+  non_cmv_units: carrier.nonCmvUnits || null,
+  physical_address: carrier.physicalAddress || null,
+  mailing_address: carrier.mailingAddress || null,
+  date_scraped: carrier.dateScraped,
+  mcs150_date: carrier.mcs150Date || null,
+  mcs150_mileage: carrier.mcs150Mileage || null,
+  operation_classification: carrier.operationClassification || [],
+  carrier_operation: carrier.carrierOperation || [],
+  cargo_carried: carrier.cargoCarried || [],
+  out_of_service_date: carrier.outOfServiceDate || null,
+  state_carrier_id: carrier.stateCarrierId || null,
+  duns_number: carrier.dunsNumber || null,
+  // SMS safety data comes from the insurance job, not the SAFER snapshot
+  ...(carrier.safetyRating !== undefined ? { safety_rating: carrier.safetyRating || null } : {}),
+  ...(carrier.safetyRatingDate !== undefined ? { safety_rating_date: carrier.safetyRatingDate || null } : {}),
+  ...(carrier.basicScores !== undefined ? { basic_scores: carrier.basicScores } : {}),
+  ...(carrier.oosRates !== undefined ? { oos_rates: carrier.oosRates } : {}),
+  // Omitted when not scraped so the upsert doesn't clear filings saved by an insurance job
+  ...(carrier.insurancePolicies ? { insurance_policies: carrier.insurancePolicies } : {}),
+  // L&I fields are only set when the lookup succeeded; otherwise keep what's stored
+  ...(carrier.boc3OnFile !== undefined ? { boc3_on_file: carrier.boc3OnFile } : {}),
+  ...(carrier.boc3Agent !== undefined ? { boc3_agent: carrier.boc3Agent || null } : {}),
+  ...(carrier.companyReps !== undefined ? { company_reps: carrier.companyReps } : {}),
+  ...typedCarrierColumns(carrier),
+});
+
+/**
+ * Upsert a carrier by USDOT number from the server. Carriers without one can't be stored.
+ * A fresh scrape counts as a verification, so the re-verification scheduler skips it.
+ */
+export const saveCarrier = async (carrier: CarrierData): Promise<void> => {
+  if (!carrier.dotNumber) throw new Error('Carrier has no USDOT number');
+
+  const { error } = await getSupabase()
+    .from('carriers')
+    .upsert(
+      { ...carrierToRecord(carrier), last_verified_at: new Date().toISOString() },
+      { onConflict: 'dot_number' }
+    );
+
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * Look up stored carriers by MC number. Returns a map of MC number → USDOT number.
+ */
+export const findCarriersByMc = async (mcNumbers: string[]): Promise<Map<string, string>> => {
+  const found = new Map<string, string>();
+  if (mcNumbers.length === 0) return found;
+
+  const { data, error } = await getSupabase()
+    .from('carriers')
+    .select('mc_number, dot_number')
+    .in('mc_number', mcNumbers);
+
+  if (error) throw new Error(error.message);
+  (data || []).forEach(row => found.set(row.mc_number, row.dot_number));
+  return found;
+};
+
+/**
+ * Of the given MC and USDOT numbers, those whose carrier was scraped or re-verified at or after `since`.
+ */
+export const findFreshCarriers = async (
+  mcNumbers: string[],
+  dotNumbers: string[],
+  since: Date
+): Promise<{ mc: Set<string>; dot: Set<string> }> => {
+  const fresh = { mc: new Set<string>(), dot: new Set<string>() };
+
+  const lookup = async (column: 'mc_number' | 'dot_number', values: string[], into: Set<string>) => {
+    for (let i = 0; i < values.length; i += 200) {
+      const { data, error } = await getSupabase()
+        .from('carriers')
+        .select(column)
+        .in(column, values.slice(i, i + 200))
+        .gte('last_verified_at', since.toISOString());
+
+      if (error) throw new Error(error.message);
+      (data || []).forEach((row: any) => into.add(row[column]));
+    }
+  };
+
+  await lookup('mc_number', mcNumbers, fresh.mc);
+  await lookup('dot_number', dotNumbers, fresh.dot);
+  return fresh;
+};
+
+/**
+ * Store insurance filings on the carrier with this USDOT number.
+ * Resolves false when no carrier has that USDOT number.
+ */
+export const saveCarrierInsurance = async (dotNumber: string, policies: InsurancePolicy[]): Promise<boolean> => {
+  const { data, error } = await getSupabase()
+    .from('carriers')
+    .update({
+      insurance_policies: policies,
+      ...insuranceColumns(policies),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('dot_number', dotNumber)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  return (data?.length ?? 0) > 0;
+};
+
+/**
+ * Store the SMS safety rating, BASIC measures and OOS rates on the carrier with this USDOT number.
+ * Resolves false when no carrier has that USDOT number.
+ */
+export const saveCarrierSafety = async (dotNumber: string, safety: SafetyData): Promise<boolean> => {
+  const { data, error } = await getSupabase()
+    .from('carriers')
+    .update({
+      safety_rating: safety.rating,
+      safety_rating_date: safety.ratingDate,
+      basic_scores: safety.basicScores,
+      oos_rates: safety.oosRates,
+      ...oosPercentColumns(safety.oosRates),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('dot_number', dotNumber)
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  return (data?.length ?? 0) > 0;
+};
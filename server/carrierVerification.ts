@@ -0,0 +1,234 @@
+import { CarrierData, VerificationStatus } from '../types';
+import { getSupabase } from './supabase';
+import { scrapeCarrierSnapshot } from './carrierScraper';
+import { scrapeInsuranceData } from './insuranceScraper';
+import { scrapeSafetyData } from './safetyScraper';
+import { saveCarrier } from './carrierStore';
+import { classifyFailure } from './httpClient';
+
+export interface VerificationOptions {
+  maxAgeDays?: number;     // re-verify carriers last verified longer ago than this
+  limit?: number;          // carriers per run
+  delayMs?: number;        // pause between carriers
+}
+
+export interface VerificationRunSummary {
+  startedAt: string;
+  finishedAt: string | null;
+  maxAgeDays: number;
+  selected: number;
+  checked: number;
+  verified: number;
+  partial: number;
+  notFound: number;
+  failed: number;
+  aborted: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_VERIFY_DELAY_MS = 1000;
+// Carriers opened in the app within this many days are refreshed before the rest
+const RECENT_VIEW_DAYS = 14;
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+};
+
+export const DEFAULT_VERIFY_MAX_AGE_DAYS = envNumber('VERIFY_MAX_AGE_DAYS', 30);
+export const DEFAULT_VERIFY_LIMIT = envNumber('VERIFY_BATCH_SIZE', 50);
+export const DEFAULT_VERIFY_DELAY_MS = envNumber('VERIFY_DELAY_MS', 3000);
+const VERIFY_INTERVAL_MS = envNumber('VERIFY_INTERVAL_MINUTES', 60) * 60 * 1000;
+
+// Stored fields kept when a refresh of that part fails
+const STALE_COLUMNS = 'dot_number, mc_number, insurance_policies, safety_rating, safety_rating_date, basic_scores, oos_rates, boc3_on_file, boc3_agent, company_reps';
+
+let activeRun: Promise<void> | null = null;
+let lastRun: VerificationRunSummary | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Carriers last verified before the cutoff: watchlisted ones first, then recently
+ * viewed ones, then the rest oldest first.
+ */
+export const findStaleCarriers = async (maxAgeDays: number, limit: number): Promise<any[]> => {
+  const cutoff = new Date(Date.now() - maxAgeDays * DAY_MS).toISOString();
+  const viewedSince = new Date(Date.now() - RECENT_VIEW_DAYS * DAY_MS).toISOString();
+  const stale = () => getSupabase()
+    .from('carriers')
+    .select(STALE_COLUMNS)
+    .lt('last_verified_at', cutoff)
+    .limit(limit);
+
+  const tiers = [
+    stale().eq('watchlisted', true).order('last_verified_at', { ascending: true }),
+    stale().gte('last_viewed_at', viewedSince).order('last_viewed_at', { ascending: false }),
+    stale().order('last_verified_at', { ascending: true }),
+  ];
+
+  const picked = new Map<string, any>();
+  for (const tier of tiers) {
+    if (picked.size >= limit) break;
+    const { data, error } = await tier;
+    if (error) throw new Error(error.message);
+    (data || []).forEach(row => {
+      if (picked.size < limit && !picked.has(row.dot_number)) picked.set(row.dot_number, row);
+    });
+  }
+  return Array.from(picked.values());
+};
+
+const recordOutcome = async (dotNumber: string, status: VerificationStatus, error?: string) => {
+  const { error: dbError } = await getSupabase()
+    .from('carriers')
+    .update({
+      last_verified_at: new Date().toISOString(),
+      verification_status: status,
+      verification_error: error || null,
+    })
+    .eq('dot_number', dotNumber);
+
+  if (dbError) console.error(`⚠️ Could not record verification for DOT ${dotNumber}:`, dbError.message);
+};
+
+// Re-scrape one carrier's snapshot, insurance and safety data and save them in one upsert
+const verifyCarrier = async (row: any): Promise<VerificationStatus> => {
+  const dot = row.dot_number;
+  const options = { forceRefresh: true };
+
+  const carrier: CarrierData | null = await scrapeCarrierSnapshot(dot, 'USDOT', options);
+  if (!carrier) {
+    await recordOutcome(dot, 'not_found');
+    return 'not_found';
+  }
+
+  // A USDOT snapshot may not list the docket; keep the MC number we already have
+  carrier.mcNumber = carrier.mcNumber || row.mc_number || '';
+  // Likewise the L&I details when that lookup failed
+  if (carrier.boc3OnFile === undefined) {
+    carrier.boc3OnFile = row.boc3_on_file;
+    carrier.boc3Agent = row.boc3_agent || '';
+    carrier.companyReps = row.company_reps;
+  }
+  const problems: string[] = [];
+
+  try {
+    carrier.insurancePolicies = (await scrapeInsuranceData(dot, options)).policies;
+  } catch (error: any) {
+    carrier.insurancePolicies = row.insurance_policies || undefined;
+    problems.push(`insurance: ${error.message}`);
+  }
+
+  try {
+    const safety = await scrapeSafetyData(dot, options);
+    carrier.safetyRating = safety.rating;
+    carrier.safetyRatingDate = safety.ratingDate;
+    carrier.basicScores = safety.basicScores;
+    carrier.oosRates = safety.oosRates;
+  } catch (error: any) {
+    carrier.safetyRating = row.safety_rating || undefined;
+    carrier.safetyRatingDate = row.safety_rating_date || undefined;
+    carrier.basicScores = row.basic_scores || undefined;
+    carrier.oosRates = row.oos_rates || undefined;
+    problems.push(`safety: ${error.message}`);
+  }
+
+  await saveCarrier(carrier);
+  const status: VerificationStatus = problems.length > 0 ? 'partial' : 'verified';
+  await recordOutcome(dot, status, problems.join('; '));
+  return status;
+};
+
+/**
+ * Re-verify a batch of stale carriers, one at a time with a pause between them.
+ * Stops early when FMCSA's circuit is open rather than marking every carrier failed.
+ */
+export const runCarrierVerification = async (options: VerificationOptions = {}): Promise<VerificationRunSummary> => {
+  const maxAgeDays = options.maxAgeDays ?? DEFAULT_VERIFY_MAX_AGE_DAYS;
+  const delayMs = Math.max(options.delayMs ?? DEFAULT_VERIFY_DELAY_MS, MIN_VERIFY_DELAY_MS);
+  const carriers = await findStaleCarriers(maxAgeDays, options.limit ?? DEFAULT_VERIFY_LIMIT);
+
+  const summary: VerificationRunSummary = {
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    maxAgeDays,
+    selected: carriers.length,
+    checked: 0,
+    verified: 0,
+    partial: 0,
+    notFound: 0,
+    failed: 0,
+    aborted: null,
+  };
+  lastRun = summary;
+  console.log(`📅 Re-verifying ${carriers.length} carriers not verified in ${maxAgeDays} days`);
+
+  for (let i = 0; i < carriers.length; i++) {
+    const dot = carriers[i].dot_number;
+    try {
+      const status = await verifyCarrier(carriers[i]);
+      if (status === 'verified') summary.verified++;
+      else if (status === 'partial') summary.partial++;
+      else summary.notFound++;
+    } catch (error: any) {
+      if (classifyFailure(error) === 'circuit_open') {
+        summary.aborted = error.message;
+        console.warn(`⏸️ Carrier re-verification stopped: ${error.message}`);
+        break;
+      }
+      summary.failed++;
+      await recordOutcome(dot, 'failed', error.message);
+    }
+    summary.checked++;
+
+    if (i < carriers.length - 1) await sleep(delayMs);
+  }
+
+  summary.finishedAt = new Date().toISOString();
+  return summary;
+};
+
+export const isVerificationRunning = (): boolean => activeRun !== null;
+
+export const getLastVerificationRun = (): VerificationRunSummary | null => lastRun;
+
+/**
+ * Start a re-verification run in the background. Returns false if one is already in progress.
+ */
+export const startCarrierVerification = (options: VerificationOptions = {}): boolean => {
+  if (activeRun) return false;
+
+  activeRun = runCarrierVerification(options)
+    .then(summary => {
+      console.log(`✅ Carrier re-verification finished (${summary.verified} verified, ${summary.partial} partial, ${summary.notFound} not found, ${summary.failed} failed)`);
+    })
+    .catch(error => {
+      console.error('❌ Carrier re-verification error:', error.message);
+    })
+    .finally(() => {
+      activeRun = null;
+    });
+
+  return true;
+};
+
+/**
+ * Re-verify stale carriers every VERIFY_INTERVAL_MINUTES. Set VERIFY_ENABLED=false to
+ * only run it on demand through the API.
+ */
+export const startVerificationScheduler = () => {
+  if (process.env.VERIFY_ENABLED === 'false') return;
+
+  try {
+    getSupabase();
+  } catch (error: any) {
+    console.warn('⚠️ Carrier re-verification disabled:', error.message);
+    return;
+  }
+
+  setInterval(() => {
+    startCarrierVerification();
+  }, VERIFY_INTERVAL_MS).unref();
+  console.log(`📅 Carrier re-verification scheduled every ${VERIFY_INTERVAL_MS / 60000} minutes`);
+};
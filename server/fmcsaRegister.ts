@@ -0,0 +1,212 @@
+import * as cheerio from 'cheerio';
+import { FMCSARegisterEntry } from '../types';
+import { BROWSER_HEADERS, cleanText } from './scraperUtils';
+import { outboundRequest } from './httpClient';
+
+const REGISTER_URL = 'https://li-public.fmcsa.dot.gov/LIVIEW/PKG_register.prc_reg_detail';
+
+// Section headers as printed on the register page, mapped to our category names
+export const REGISTER_SECTIONS: Array<{ category: string; header: string }> = [
+  { category: 'NAME CHANGE', header: 'NAME CHANGES' },
+  { category: 'CERTIFICATE, PERMIT, LICENSE', header: 'CERTIFICATES, PERMITS & LICENSES' },
+  { category: 'CERTIFICATE OF REGISTRATION', header: 'CERTIFICATES OF REGISTRATION' },
+  { category: 'DISMISSAL', header: 'DISMISSALS' },
+  { category: 'WITHDRAWAL', header: 'WITHDRAWAL OF APPLICATION' },
+  { category: 'REVOCATION', header: 'REVOCATIONS' },
+  { category: 'MISCELLANEOUS', header: 'MISCELLANEOUS' },
+  { category: 'TRANSFERS', header: 'TRANSFERS' },
+  { category: 'GRANT DECISION NOTICES', header: 'GRANT DECISION NOTICES' }
+];
+
+// Dockets that appear before any recognised section header
+export const UNPLACED_CATEGORY = 'UNCATEGORIZED';
+
+export interface RegisterParseResult {
+  entries: FMCSARegisterEntry[];
+  sectionCounts: Record<string, number>;
+  unplaced: string[];
+}
+
+// Docket number, free-text title, decided date
+const ENTRY_PATTERN = /((?:MC|FF|MX|MX-MC)-\d+)\s+([\s\S]*?)\s+(\d{2}\/\d{2}\/\d{4})/g;
+const DOCKET_PATTERN = /(?:MC|FF|MX)-\d+/;
+
+// Tags that end a line of text, so cells and rows don't run together
+const BLOCK_TAGS = new Set(['TABLE', 'TR', 'TD', 'TH', 'P', 'DIV', 'BR', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'CAPTION']);
+
+// Helper function to format date as DD-MMM-YY
+export function formatDateForFMCSA(date: Date): string {
+  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = months[date.getMonth()];
+  const year = String(date.getFullYear()).slice(-2);
+  return `${day}-${month}-${year}`;
+}
+
+/**
+ * Match an element's text against the section headers. Only short texts that read as
+ * a heading count, so a carrier called "XYZ TRANSFERS LLC" never opens a section.
+ */
+const matchSectionHeader = (text: string): string | null => {
+  const upper = cleanText(text).toUpperCase();
+  if (!upper || DOCKET_PATTERN.test(upper)) return null;
+
+  for (const { category, header } of REGISTER_SECTIONS) {
+    if (upper === header) return category;
+    // Allow trailing counts or punctuation, e.g. "REVOCATIONS (12)" or "NAME CHANGES:"
+    if (upper.startsWith(header) && !/^[A-Z]/.test(upper.slice(header.length).trim()) && upper.length <= header.length + 20) {
+      return category;
+    }
+  }
+  return null;
+};
+
+/**
+ * Split a register title such as "ACME LLC D/B/A ACME FREIGHT - HOUSTON, TX"
+ * into legal name, DBA, city and state. Titles without a trailing
+ * "CITY, ST" keep the whole text as the legal name.
+ */
+export const parseRegisterTitle = (title: string): { legalName: string; dbaName: string; city: string; state: string } => {
+  const dash = title.lastIndexOf(' - ');
+  const location = dash === -1 ? null : title.slice(dash + 3).match(/^(.+?),\s*([A-Z]{2})(?:\s+\d{5}(?:-\d{4})?)?$/);
+  const namePart = location ? title.slice(0, dash) : title;
+  const [legalName, dbaName = ''] = namePart.split(/\s+D\/?B\/?A\s+/i);
+
+  return {
+    legalName: legalName.trim(),
+    dbaName: dbaName.trim(),
+    city: location ? location[1].trim() : '',
+    state: location ? location[2] : ''
+  };
+};
+
+/**
+ * Split a docket such as "MC-123456" into its MC/FF/MX prefix and number.
+ */
+export const parseDocket = (docket: string): { docketPrefix: string; docketNumber: string } => {
+  const match = docket.match(/^(MC|FF|MX)(?:-MC)?-(\d+)$/);
+  return {
+    docketPrefix: match ? match[1] : '',
+    docketNumber: match ? match[2] : ''
+  };
+};
+
+/**
+ * Parse a register detail page.
+ * Section headers are located in the DOM and every docket is assigned to the
+ * section it sits under. Dockets above the first header are reported as unplaced.
+ */
+export const parseRegisterPage = (html: string): RegisterParseResult => {
+  const $ = cheerio.load(html);
+
+  // Flatten the document to text while recording where each header starts
+  let rawText = '';
+  const headers: Array<{ index: number; category: string }> = [];
+
+  const walk = (parent: ReturnType<typeof $>) => {
+    parent.contents().each((_, node) => {
+      if (node.type === 'text') {
+        rawText += $(node).text();
+        return;
+      }
+      if (node.type !== 'tag') return;
+
+      const el = $(node);
+      const category = matchSectionHeader(el.text());
+      if (category) {
+        headers.push({ index: rawText.length, category });
+      }
+
+      walk(el);
+      if (BLOCK_TAGS.has(String(el.prop('tagName')).toUpperCase())) {
+        rawText += '\n';
+      }
+    });
+  };
+  walk($.root());
+
+  const entries: FMCSARegisterEntry[] = [];
+  const pattern = new RegExp(ENTRY_PATTERN);
+  let match;
+
+  while ((match = pattern.exec(rawText)) !== null) {
+    const title = match[2].replace(/\s+/g, ' ').trim();
+
+    // Anything longer swallowed a section break or another docket
+    if (title.length > 500) continue;
+
+    let category = UNPLACED_CATEGORY;
+    for (const header of headers) {
+      if (header.index > match.index) break;
+      category = header.category;
+    }
+
+    entries.push({
+      number: match[1],
+      title,
+      decided: match[3],
+      category,
+      ...parseDocket(match[1]),
+      ...parseRegisterTitle(title)
+    });
+  }
+
+  const uniqueEntries = entries.filter((entry, index, self) =>
+    index === self.findIndex((e) => e.number === entry.number && e.title === entry.title)
+  );
+
+  const sectionCounts: Record<string, number> = {};
+  REGISTER_SECTIONS.forEach(({ category }) => { sectionCounts[category] = 0; });
+  uniqueEntries.forEach(entry => {
+    sectionCounts[entry.category] = (sectionCounts[entry.category] || 0) + 1;
+  });
+
+  return {
+    entries: uniqueEntries,
+    sectionCounts,
+    unplaced: uniqueEntries.filter(e => e.category === UNPLACED_CATEGORY).map(e => e.number)
+  };
+};
+
+/**
+ * Parse a register detail page into entries.
+ */
+export const parseRegisterHtml = (html: string): FMCSARegisterEntry[] => parseRegisterPage(html).entries;
+
+/**
+ * Fetch the raw register detail page for a DD-MMM-YY date.
+ * Returns null when FMCSA answers with something other than a register page.
+ */
+export const fetchRegisterHtml = async (registerDate: string): Promise<string | null> => {
+  const params = new URLSearchParams();
+  params.append('pd_date', registerDate);
+  params.append('pv_vpath', 'LIVIEW');
+
+  const response = await outboundRequest({
+    method: 'post',
+    url: REGISTER_URL,
+    data: params.toString(),
+    headers: {
+      ...BROWSER_HEADERS,
+      'Referer': 'https://li-public.fmcsa.dot.gov/LIVIEW/PKG_REGISTER.prc_reg_list',
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Origin': 'https://li-public.fmcsa.dot.gov'
+    },
+    timeout: 60000, // Register pages can hold 2000+ entries
+  });
+
+  if (typeof response.data !== 'string' || !response.data.toUpperCase().includes('FMCSA REGISTER')) {
+    return null;
+  }
+
+  return response.data;
+};
+
+/**
+ * Fetch and parse the register for a DD-MMM-YY date.
+ * Returns null when no register page is available for that date.
+ */
+export const scrapeRegister = async (registerDate: string): Promise<RegisterParseResult | null> => {
+  const html = await fetchRegisterHtml(registerDate);
+  return html === null ? null : parseRegisterPage(html);
+};
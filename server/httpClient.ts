@@ -0,0 +1,218 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { OutboundFailureKind } from '../types';
+import { nextProxy, recordProxyResult } from './proxyPool';
+
+// Steady request rate and burst size per upstream host
+const HOST_LIMITS: Record<string, { ratePerSec: number; burst: number }> = {
+  'safer.fmcsa.dot.gov': { ratePerSec: 2, burst: 5 },
+  'ai.fmcsa.dot.gov': { ratePerSec: 2, burst: 5 },
+  'li-public.fmcsa.dot.gov': { ratePerSec: 1, burst: 2 },
+  'searchcarriers.com': { ratePerSec: 1, burst: 3 },
+};
+const DEFAULT_LIMIT = { ratePerSec: 2, burst: 4 };
+// A throttled host drops to no less than this fraction of its configured rate
+const MIN_RATE_FACTOR = 0.1;
+
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+// Consecutive failures that open a host's circuit, and how long it stays open
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 60000;
+
+/**
+ * A failed outbound request, classified so callers can report why a record failed.
+ */
+export class OutboundError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: OutboundFailureKind,
+    public readonly host: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'OutboundError';
+  }
+}
+
+interface HostState {
+  configuredRate: number;
+  ratePerSec: number;
+  burst: number;
+  tokens: number;
+  lastRefill: number;
+  consecutiveFailures: number;
+  circuitOpenUntil: number;
+  requests: number;
+  failures: number;
+  throttled: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getHostState = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) {
+    const limit = HOST_LIMITS[host] || DEFAULT_LIMIT;
+    state = {
+      configuredRate: limit.ratePerSec,
+      ratePerSec: limit.ratePerSec,
+      burst: limit.burst,
+      tokens: limit.burst,
+      lastRefill: Date.now(),
+      consecutiveFailures: 0,
+      circuitOpenUntil: 0,
+      requests: 0,
+      failures: 0,
+      throttled: 0,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+// Wait for a token from the host's bucket
+const acquireToken = async (state: HostState): Promise<void> => {
+  for (;;) {
+    const now = Date.now();
+    state.tokens = Math.min(state.burst, state.tokens + ((now - state.lastRefill) / 1000) * state.ratePerSec);
+    state.lastRefill = now;
+
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil(((1 - state.tokens) / state.ratePerSec) * 1000));
+  }
+};
+
+/**
+ * Classify an axios error: 404 is "not found", 403/429 "blocked", timeouts "timeout",
+ * other 5xx "server_error", and anything without a response "network".
+ */
+export const classifyFailure = (error: any): OutboundFailureKind => {
+  if (error instanceof OutboundError) return error.kind;
+  if (!axios.isAxiosError(error)) return 'network';
+
+  const status = error.response?.status;
+  if (status === 404) return 'not_found';
+  if (status === 403 || status === 429) return 'blocked';
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return 'timeout';
+  if (status && status >= 500) return 'server_error';
+  return 'network';
+};
+
+const isRetryable = (kind: OutboundFailureKind) => kind === 'blocked' || kind === 'timeout' || kind === 'server_error' || kind === 'network';
+
+// Delay before the next attempt: Retry-After when the host sent one, otherwise exponential with jitter
+const backoffDelay = (error: any, attempt: number): number => {
+  const retryAfter = Number(error?.response?.headers?.['retry-after']);
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, BACKOFF_MAX_MS);
+  const base = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return base / 2 + Math.random() * (base / 2);
+};
+
+const recordSuccess = (state: HostState) => {
+  state.consecutiveFailures = 0;
+  state.circuitOpenUntil = 0;
+  // Additive recovery back towards the configured rate
+  state.ratePerSec = Math.min(state.configuredRate, state.ratePerSec + state.configuredRate * 0.1);
+};
+
+const recordFailure = (host: string, state: HostState, kind: OutboundFailureKind) => {
+  // The host answered; the record just isn't there
+  if (kind === 'not_found') {
+    recordSuccess(state);
+    return;
+  }
+
+  state.failures++;
+  state.consecutiveFailures++;
+
+  if (kind === 'blocked') {
+    // Multiplicative slow-down while the host is pushing back
+    state.throttled++;
+    state.ratePerSec = Math.max(state.configuredRate * MIN_RATE_FACTOR, state.ratePerSec / 2);
+    console.warn(`⚠️ ${host} is throttling us; slowing to ${state.ratePerSec.toFixed(2)} req/s`);
+  }
+
+  if (state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD && state.circuitOpenUntil <= Date.now()) {
+    state.circuitOpenUntil = Date.now() + CIRCUIT_OPEN_MS;
+    console.warn(`🚨 Circuit open for ${host} after ${state.consecutiveFailures} failures; pausing ${CIRCUIT_OPEN_MS / 1000}s`);
+  }
+};
+
+export interface OutboundOptions {
+  retries?: number;
+  // Route through the proxy pool (the default); false connects directly
+  useProxy?: boolean;
+}
+
+/**
+ * Send a request through the shared outbound client. Every FMCSA / SearchCarriers call
+ * goes through here so hosts are rate limited per bucket, transient failures (blocked,
+ * timeout, 5xx, network) are retried with backoff, and a host that keeps failing is cut
+ * off by its circuit breaker. Each attempt takes the next proxy from the pool, unless
+ * useProxy is false or no proxy is healthy. Throws an OutboundError once retries are exhausted.
+ */
+export const outboundRequest = async <T = any>(
+  config: AxiosRequestConfig,
+  options: OutboundOptions = {}
+): Promise<AxiosResponse<T>> => {
+  const host = new URL(config.url || '').host;
+  const state = getHostState(host);
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    // While open, fail fast; after the cooldown the next failure reopens it straight away
+    if (state.circuitOpenUntil > Date.now()) {
+      throw new OutboundError(`Circuit open for ${host}`, 'circuit_open', host);
+    }
+
+    await acquireToken(state);
+    state.requests++;
+
+    const proxy = options.useProxy === false ? null : nextProxy();
+    const startedAt = Date.now();
+
+    try {
+      const response = await axios.request<T>(
+        proxy ? { ...config, httpAgent: proxy.agent, httpsAgent: proxy.agent, proxy: false } : config
+      );
+      recordSuccess(state);
+      if (proxy) recordProxyResult(proxy.id, true, Date.now() - startedAt);
+      return response;
+    } catch (error: any) {
+      const kind = classifyFailure(error);
+      recordFailure(host, state, kind);
+      // A 404 still means the proxy did its job
+      if (proxy) recordProxyResult(proxy.id, kind === 'not_found', Date.now() - startedAt, error.message);
+
+      if (!isRetryable(kind) || attempt >= retries || state.circuitOpenUntil > Date.now()) {
+        throw new OutboundError(error.message, kind, host, error.response?.status);
+      }
+
+      const delay = backoffDelay(error, attempt);
+      console.warn(`⚠️ ${kind} from ${host} (attempt ${attempt + 1}/${retries + 1}); retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Current limiter and circuit state for every host contacted so far.
+ */
+export const getOutboundHostStates = () =>
+  Array.from(hosts.entries()).map(([host, state]) => ({
+    host,
+    ratePerSec: Number(state.ratePerSec.toFixed(2)),
+    configuredRate: state.configuredRate,
+    circuitOpen: state.circuitOpenUntil > Date.now(),
+    consecutiveFailures: state.consecutiveFailures,
+    requests: state.requests,
+    failures: state.failures,
+    throttled: state.throttled,
+  }));
@@ -1,24 +1,53 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
 import dotenv from 'dotenv';
+import { scrapeCarrierSnapshot, searchCarriersByName } from './carrierScraper';
+import { scrapeSafetyData } from './safetyScraper';
+import { scrapeInsuranceData } from './insuranceScraper';
+import { formatDateForFMCSA, scrapeRegister } from './fmcsaRegister';
+import { DEFAULT_BACKFILL_DELAY_MS, isBackfillRunning, startRegisterBackfill } from './registerBackfill';
+import { isEnrichmentRunning, startRegisterEnrichment } from './registerEnrichment';
+import {
+  cancelScrapeJob,
+  createScrapeJob,
+  getScrapeJob,
+  listScrapeJobResults,
+  listScrapeJobs,
+  pauseScrapeJob,
+  recoverInterruptedJobs,
+  retryFailedMcs,
+  startScrapeJob,
+  validateScraperConfig
+} from './scrapeJobs';
+import { cancelInsuranceJob, getActiveInsuranceJob, getInsuranceJob, startInsuranceJob } from './insuranceJobs';
+import { streamJobEvents } from './jobEvents';
+import { classifyFailure, getOutboundHostStates, outboundRequest } from './httpClient';
+import { checkProxyHealth, getProxyStatuses, loadProxyPool, startProxyPool } from './proxyPool';
+import { BROWSER_HEADERS } from './scraperUtils';
+import { clearResponseCache, getResponseCacheStats } from './responseCache';
+import {
+  getLastVerificationRun,
+  isVerificationRunning,
+  startCarrierVerification,
+  startVerificationScheduler
+} from './carrierVerification';
+import { CacheSource } from '../types';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Upstreams the browser may fetch through /api/fetch
+const FETCH_ALLOWED_HOSTS = ['safer.fmcsa.dot.gov', 'ai.fmcsa.dot.gov', 'li-public.fmcsa.dot.gov', 'searchcarriers.com'];
+
+// ?refresh=true skips the response cache for a lookup
+const isForceRefresh = (req: Request) => req.query.refresh === 'true' || req.query.refresh === '1';
+
 // Middleware.
 app.use(cors());
 app.use(express.json());
 
-// Helper function to clean text
-const cleanText = (text: string | null | undefined): string => {
-  if (!text) return '';
-  return text.replace(/\u00a0/g, ' ').replace(/\s+/g, ' ').trim();
-};
-
 // Route: Scrape FMCSA Register Data (Enhanced for 2000+ records)
 app.post('/api/fmcsa-register', async (req: Request, res: Response) => {
   try {
@@ -26,28 +55,12 @@ app.post('/api/fmcsa-register', async (req: Request, res: Response) => {
     
     // Format date as DD-MMM-YY (e.g., 20-FEB-26)
     const registerDate = date || formatDateForFMCSA(new Date());
-    
-    const registerUrl = 'https://li-public.fmcsa.dot.gov/LIVIEW/PKG_register.prc_reg_detail';
-    
-    const params = new URLSearchParams();
-    params.append('pd_date', registerDate);
-    params.append('pv_vpath', 'LIVIEW');
 
     console.log(`📡 Scraping FMCSA Register for date: ${registerDate}`);
 
-    const response = await axios.post(registerUrl, params.toString(), {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Referer': 'https://li-public.fmcsa.dot.gov/LIVIEW/PKG_REGISTER.prc_reg_list',
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Origin': 'https://li-public.fmcsa.dot.gov'
-      },
-      timeout: 60000, // Increased timeout for large pages
-    });
+    const result = await scrapeRegister(registerDate);
 
-    if (!response.data.toUpperCase().includes('FMCSA REGISTER')) {
+    if (!result) {
       return res.status(400).json({
         success: false,
         error: 'Invalid response from FMCSA. The page might not be available for this date.',
@@ -55,75 +68,21 @@ app.post('/api/fmcsa-register', async (req: Request, res: Response) => {
       });
     }
 
-    const $ = cheerio.load(response.data);
-    const rawText = $.text();
-    
-    /**
-     * ADVANCED PARSING STRATEGY:
-     * Instead of a single regex that might skip sections, we look for 
-     * specific patterns and categorize them based on headers.
-     */
-    const entries: Array<{ number: string; title: string; decided: string; category: string }> = [];
-    
-    // Pattern for Docket numbers (MC, MX, FF followed by digits)
-    // Pattern captures: [Number] [Title/Info] [Date]
-    const pattern = /((?:MC|FF|MX|MX-MC)-\d+)\s+([\s\S]*?)\s+(\d{2}\/\d{2}\/\d{4})/g;
-    
-    let match;
-    const categoryKeywords: Record<string, string[]> = {
-      'NAME CHANGE': ['NAME CHANGES'],
-      'CERTIFICATE, PERMIT, LICENSE': ['CERTIFICATES, PERMITS & LICENSES'],
-      'CERTIFICATE OF REGISTRATION': ['CERTIFICATES OF REGISTRATION'],
-      'DISMISSAL': ['DISMISSALS'],
-      'WITHDRAWAL': ['WITHDRAWAL OF APPLICATION'],
-      'REVOCATION': ['REVOCATIONS'],
-      'TRANSFERS': ['TRANSFERS'],
-      'GRANT DECISION NOTICES': ['GRANT DECISION NOTICES']
-    };
-
-    while ((match = pattern.exec(rawText)) !== null) {
-      const docket = match[1];
-      const rawInfo = match[2];
-      const decidedDate = match[3];
-
-      // Clean the info part - remove excessive whitespace and newlines
-      const title = rawInfo.replace(/\s+/g, ' ').trim();
-      
-      // Safety check: if title is too long or contains another docket, skip or truncate
-      if (title.length > 500) continue; 
-
-      // Contextual Category Detection
-      const beforeIndex = match.index;
-      const contextText = rawText.substring(Math.max(0, beforeIndex - 1500), beforeIndex).toUpperCase();
-      
-      let category = 'MISCELLANEOUS';
-      for (const [catName, keywords] of Object.entries(categoryKeywords)) {
-        if (keywords.some(k => contextText.includes(k))) {
-          category = catName;
-        }
-      }
-
-      entries.push({
-        number: docket,
-        title,
-        decided: decidedDate,
-        category
-      });
-    }
-
-    // Deduplicate entries
-    const uniqueEntries = entries.filter((entry, index, self) =>
-      index === self.findIndex((e) => e.number === entry.number && e.title === entry.title)
-    );
+    const { entries, sectionCounts, unplaced } = result;
 
-    console.log(`✅ Successfully extracted ${uniqueEntries.length} entries for ${registerDate}`);
+    console.log(`✅ Successfully extracted ${entries.length} entries for ${registerDate}`);
+    if (unplaced.length > 0) {
+      console.warn(`⚠️ ${unplaced.length} dockets could not be placed in a register section`);
+    }
 
     res.json({
       success: true,
-      count: uniqueEntries.length,
+      count: entries.length,
       date: registerDate,
       lastUpdated: new Date().toISOString(),
-      entries: uniqueEntries
+      sectionCounts,
+      unplaced,
+      entries
     });
 
   } catch (error: any) {
@@ -137,20 +96,433 @@ app.post('/api/fmcsa-register', async (req: Request, res: Response) => {
   }
 });
 
-// Helper function to format date as DD-MMM-YY
-function formatDateForFMCSA(date: Date): string {
-  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
-  const day = String(date.getDate()).padStart(2, '0');
-  const month = months[date.getMonth()];
-  const year = String(date.getFullYear()).slice(-2);
-  return `${day}-${month}-${year}`;
-}
+// Route: Start a register backfill over a YYYY-MM-DD date range (runs in the background)
+app.post('/api/fmcsa-register/backfill', (req: Request, res: Response) => {
+  const { from, to, delayMs, enrich } = req.body || {};
+
+  if (!from || !to) {
+    return res.status(400).json({ success: false, error: 'Both "from" and "to" dates are required' });
+  }
+
+  // NaN would slip past the minimum delay and turn off the throttle
+  if (delayMs !== undefined && !Number.isFinite(Number(delayMs))) {
+    return res.status(400).json({ success: false, error: '"delayMs" must be a number of milliseconds' });
+  }
+
+  try {
+    const started = startRegisterBackfill({
+      from,
+      to,
+      delayMs: delayMs !== undefined ? Number(delayMs) : DEFAULT_BACKFILL_DELAY_MS,
+      enrich: Boolean(enrich)
+    });
+
+    if (!started) {
+      return res.status(409).json({ success: false, error: 'A register backfill is already running' });
+    }
+
+    res.status(202).json({ success: true, from, to, message: 'Backfill started' });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+// Route: Whether a register backfill is currently running
+app.get('/api/fmcsa-register/backfill', (req: Request, res: Response) => {
+  res.json({ running: isBackfillRunning() });
+});
+
+// Route: Link a saved register day's new grants to carrier records (runs in the background)
+app.post('/api/fmcsa-register/enrich', (req: Request, res: Response) => {
+  const { date } = req.body || {};
+
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ success: false, error: 'A YYYY-MM-DD "date" is required' });
+  }
+
+  if (!startRegisterEnrichment(date)) {
+    return res.status(409).json({ success: false, error: 'A register enrichment is already running' });
+  }
+
+  res.status(202).json({ success: true, date, message: 'Enrichment started' });
+});
+
+// Route: Whether a register enrichment is currently running
+app.get('/api/fmcsa-register/enrich', (req: Request, res: Response) => {
+  res.json({ running: isEnrichmentRunning() });
+});
+
+// Route: Re-verify stale carriers now instead of waiting for the scheduler (runs in the background)
+app.post('/api/carrier-verification/run', (req: Request, res: Response) => {
+  const { maxAgeDays, limit, delayMs } = req.body || {};
+
+  if (delayMs !== undefined && !Number.isFinite(Number(delayMs))) {
+    return res.status(400).json({ success: false, error: '"delayMs" must be a number of milliseconds' });
+  }
+
+  const started = startCarrierVerification({
+    maxAgeDays: maxAgeDays !== undefined ? Number(maxAgeDays) : undefined,
+    limit: limit !== undefined ? Number(limit) : undefined,
+    delayMs: delayMs !== undefined ? Number(delayMs) : undefined
+  });
+
+  if (!started) {
+    return res.status(409).json({ success: false, error: 'A carrier re-verification is already running' });
+  }
+
+  res.status(202).json({ success: true, message: 'Re-verification started' });
+});
+
+// Route: Whether a re-verification is running, and how the last run went
+app.get('/api/carrier-verification', (req: Request, res: Response) => {
+  res.json({ running: isVerificationRunning(), lastRun: getLastVerificationRun() });
+});
+
+// Route: Create a background scrape job from a ScraperConfig, optionally starting it right away
+app.post('/api/scrape-jobs', async (req: Request, res: Response) => {
+  const { config, maxResults, start, name } = req.body || {};
+
+  const invalid = validateScraperConfig(config);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  try {
+    const job = await createScrapeJob(config, maxResults !== undefined && maxResults !== null ? Number(maxResults) : null, {
+      name: typeof name === 'string' ? name : undefined,
+    });
+    const started = start && job.status === 'pending' ? await startScrapeJob(job.id) : job;
+    res.status(201).json(started);
+  } catch (error: any) {
+    console.error('❌ Scrape job create error:', error.message);
+    res.status(500).json({ error: 'Failed to create scrape job', details: error.message });
+  }
+});
+
+// Route: Recent scrape jobs, newest first
+app.get('/api/scrape-jobs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    res.json(await listScrapeJobs(limit));
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to list scrape jobs', details: error.message });
+  }
+});
+
+// Route: A single scrape job with its counters
+app.get('/api/scrape-jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await getScrapeJob(String(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: 'Scrape job not found' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to load scrape job', details: error.message });
+  }
+});
+
+// Route: Per-MC results for a job; pass ?after=<id> to poll for new rows only
+app.get('/api/scrape-jobs/:id/results', async (req: Request, res: Response) => {
+  try {
+    const afterId = Number(req.query.after) || 0;
+    const limit = Math.min(Number(req.query.limit) || 500, 1000);
+    res.json(await listScrapeJobResults(String(req.params.id), afterId, limit));
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to load scrape job results', details: error.message });
+  }
+});
+
+// Route: Live event stream for a scrape job (SSE, replays from Last-Event-ID)
+app.get('/api/scrape-jobs/:id/events', (req: Request, res: Response) => {
+  streamJobEvents(req, res, String(req.params.id));
+});
+
+// Route: Start, pause, resume or cancel a scrape job, or retry its failed MCs as a new job.
+// start, resume and retry-failed accept an optional { maxResults } allowance for this run.
+app.post('/api/scrape-jobs/:id/:action', async (req: Request, res: Response) => {
+  const id = String(req.params.id);
+  const { maxResults } = req.body || {};
+  const allowance = maxResults !== undefined && maxResults !== null ? Number(maxResults) : undefined;
+  const actions: Record<string, (jobId: string) => Promise<any>> = {
+    start: jobId => startScrapeJob(jobId, allowance),
+    resume: jobId => startScrapeJob(jobId, allowance),
+    'retry-failed': jobId => retryFailedMcs(jobId, allowance),
+    pause: pauseScrapeJob,
+    cancel: cancelScrapeJob,
+  };
+
+  const action = actions[String(req.params.action)];
+  if (!action) {
+    return res.status(404).json({ error: `Unknown job action: ${req.params.action}` });
+  }
+
+  try {
+    const job = await action(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Scrape job not found' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    res.status(409).json({ error: error.message });
+  }
+});
+
+// Route: Start an insurance + safety run over a list of USDOT numbers
+app.post('/api/insurance-jobs', (req: Request, res: Response) => {
+  const { dotNumbers } = req.body || {};
+
+  if (!Array.isArray(dotNumbers)) {
+    return res.status(400).json({ error: '"dotNumbers" must be an array' });
+  }
+
+  const valid = Array.from(new Set(dotNumbers.map((d: any) => String(d).trim()).filter(d => /^\d+$/.test(d))));
+  if (valid.length === 0) {
+    return res.status(400).json({ error: 'No valid USDOT numbers supplied' });
+  }
+
+  const job = startInsuranceJob(valid);
+  if (!job) {
+    return res.status(409).json({ error: 'An insurance job is already running', job: getActiveInsuranceJob() });
+  }
+  res.status(202).json(job);
+});
+
+// Route: The insurance run in progress, if any
+app.get('/api/insurance-jobs/active', (req: Request, res: Response) => {
+  res.json(getActiveInsuranceJob());
+});
+
+app.get('/api/insurance-jobs/:id', (req: Request, res: Response) => {
+  const job = getInsuranceJob(String(req.params.id));
+  if (!job) {
+    return res.status(404).json({ error: 'Insurance job not found' });
+  }
+  res.json(job);
+});
+
+// Route: Live event stream for an insurance run (SSE, replays from Last-Event-ID)
+app.get('/api/insurance-jobs/:id/events', (req: Request, res: Response) => {
+  streamJobEvents(req, res, String(req.params.id));
+});
+
+app.post('/api/insurance-jobs/:id/cancel', (req: Request, res: Response) => {
+  const job = cancelInsuranceJob(String(req.params.id));
+  if (!job) {
+    return res.status(404).json({ error: 'Insurance job not found' });
+  }
+  res.json(job);
+});
+
+// Route: Scrape SAFER Company Snapshot for a single MC number
+app.get('/api/scrape/carrier/:mcNumber', async (req: Request, res: Response) => {
+  const mcNumber = String(req.params.mcNumber).replace(/^MC-?/i, '').trim();
+
+  if (!/^\d+$/.test(mcNumber)) {
+    return res.status(400).json({ error: 'Invalid MC number' });
+  }
+
+  try {
+    console.log(`📡 Scraping SAFER snapshot for MC ${mcNumber}`);
+    const carrier = await scrapeCarrierSnapshot(mcNumber, 'MC_MX', { forceRefresh: isForceRefresh(req) });
+
+    if (!carrier) {
+      return res.status(404).json({ error: `No SAFER record found for MC ${mcNumber}` });
+    }
+
+    res.json(carrier);
+  } catch (error: any) {
+    console.error(`❌ Carrier scrape error for MC ${mcNumber}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to scrape carrier data',
+      details: error.message,
+      reason: classifyFailure(error)
+    });
+  }
+});
+
+// Route: Scrape the SAFER Company Snapshot for a USDOT number (works for carriers without an MC number)
+app.get('/api/scrape/carrier/dot/:dotNumber', async (req: Request, res: Response) => {
+  const dotNumber = String(req.params.dotNumber).replace(/^(US)?DOT-?/i, '').trim();
+
+  if (!/^\d+$/.test(dotNumber)) {
+    return res.status(400).json({ error: 'Invalid USDOT number' });
+  }
+
+  try {
+    console.log(`📡 Scraping SAFER snapshot for USDOT ${dotNumber}`);
+    const carrier = await scrapeCarrierSnapshot(dotNumber, 'USDOT', { forceRefresh: isForceRefresh(req) });
+
+    if (!carrier) {
+      return res.status(404).json({ error: `No SAFER record found for USDOT ${dotNumber}` });
+    }
+
+    res.json(carrier);
+  } catch (error: any) {
+    console.error(`❌ Carrier scrape error for USDOT ${dotNumber}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to scrape carrier data',
+      details: error.message,
+      reason: classifyFailure(error)
+    });
+  }
+});
+
+// Route: Search SAFER by company name; returns every match for the caller to pick from
+app.get('/api/scrape/carrier-search', async (req: Request, res: Response) => {
+  const name = String(req.query.name || '').trim();
+
+  if (name.length < 2) {
+    return res.status(400).json({ error: 'A "name" of at least 2 characters is required' });
+  }
+
+  try {
+    console.log(`📡 Searching SAFER for "${name}"`);
+    const hits = await searchCarriersByName(name);
+    res.json({ count: hits.length, hits });
+  } catch (error: any) {
+    console.error(`❌ Carrier name search error for "${name}":`, error.message);
+    res.status(500).json({
+      error: 'Failed to search carriers',
+      details: error.message,
+      reason: classifyFailure(error)
+    });
+  }
+});
+
+// Route: Scrape SMS safety rating, BASIC scores and OOS rates for a USDOT number
+app.get('/api/scrape/safety/:dotNumber', async (req: Request, res: Response) => {
+  const dotNumber = String(req.params.dotNumber).trim();
+
+  if (!/^\d+$/.test(dotNumber)) {
+    return res.status(400).json({ error: 'Invalid USDOT number' });
+  }
+
+  try {
+    console.log(`📡 Scraping SMS safety profile for DOT ${dotNumber}`);
+    const safety = await scrapeSafetyData(dotNumber, { forceRefresh: isForceRefresh(req) });
+    res.json(safety);
+  } catch (error: any) {
+    console.error(`❌ Safety scrape error for DOT ${dotNumber}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to scrape safety data',
+      details: error.message,
+      reason: classifyFailure(error)
+    });
+  }
+});
+
+// Route: Fetch and normalize insurance filings for a USDOT number
+app.get('/api/scrape/insurance/:dotNumber', async (req: Request, res: Response) => {
+  const dotNumber = String(req.params.dotNumber).trim();
+
+  if (!/^\d+$/.test(dotNumber)) {
+    return res.status(400).json({ error: 'Invalid USDOT number' });
+  }
+
+  try {
+    console.log(`📡 Fetching insurance filings for DOT ${dotNumber}`);
+    const insurance = await scrapeInsuranceData(dotNumber, { forceRefresh: isForceRefresh(req) });
+    res.json(insurance);
+  } catch (error: any) {
+    console.error(`❌ Insurance scrape error for DOT ${dotNumber}:`, error.message);
+    res.status(500).json({
+      error: 'Failed to scrape insurance data',
+      details: error.message,
+      reason: classifyFailure(error)
+    });
+  }
+});
+
+// Route: Fetch an FMCSA / SearchCarriers URL for the browser through the proxy pool
+app.get('/api/fetch', async (req: Request, res: Response) => {
+  let target: URL;
+  try {
+    target = new URL(String(req.query.url || ''));
+  } catch {
+    return res.status(400).json({ error: 'A valid "url" is required' });
+  }
+
+  if (target.protocol !== 'https:' || !FETCH_ALLOWED_HOSTS.includes(target.host)) {
+    return res.status(400).json({ error: `Fetching ${target.host} is not allowed` });
+  }
+
+  try {
+    const response = await outboundRequest<string>({
+      method: 'get',
+      url: target.toString(),
+      headers: BROWSER_HEADERS,
+      timeout: 30000,
+      responseType: 'text',
+    });
+    res.type(String(response.headers['content-type'] || 'text/html')).send(response.data);
+  } catch (error: any) {
+    const reason = classifyFailure(error);
+    res.status(reason === 'not_found' ? 404 : 502).json({
+      error: 'Failed to fetch upstream page',
+      details: error.message,
+      reason
+    });
+  }
+});
+
+// Route: Proxy pool state and per-proxy stats
+app.get('/api/proxies', (req: Request, res: Response) => {
+  res.json({ proxies: getProxyStatuses() });
+});
+
+// Route: Health-check every proxy now
+app.post('/api/proxies/health-check', async (req: Request, res: Response) => {
+  res.json({ proxies: await checkProxyHealth() });
+});
+
+// Route: Reload proxies from PROXY_URLS and the proxies table, then health-check them
+app.post('/api/proxies/reload', async (req: Request, res: Response) => {
+  try {
+    await loadProxyPool();
+    res.json({ proxies: await checkProxyHealth() });
+  } catch (error: any) {
+    console.error('❌ Proxy reload error:', error.message);
+    res.status(500).json({ error: 'Failed to reload proxies', details: error.message });
+  }
+});
+
+// Route: Drop cached SAFER / SMS / insurance / L&I lookups, optionally for one ?source=
+app.delete('/api/cache', async (req: Request, res: Response) => {
+  const source = req.query.source ? String(req.query.source) : undefined;
+
+  if (source && !['safer', 'sms', 'insurance', 'li'].includes(source)) {
+    return res.status(400).json({ error: 'source must be one of safer, sms, insurance or li' });
+  }
+
+  try {
+    await clearResponseCache(source as CacheSource | undefined);
+    res.json(getResponseCacheStats());
+  } catch (error: any) {
+    res.status(500).json({ error: 'Failed to clear response cache', details: error.message });
+  }
+});
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
-  res.json({ status: 'ok', message: 'FMCSA Scraper Backend is running' });
+  res.json({
+    status: 'ok',
+    message: 'FMCSA Scraper Backend is running',
+    outbound: getOutboundHostStates(),
+    cache: getResponseCacheStats()
+  });
 });
 
 app.listen(PORT, () => {
   console.log(`🚀 Backend proxy server running on http://localhost:${PORT}`);
+
+  // Jobs interrupted by a restart are parked as paused so they can be resumed
+  recoverInterruptedJobs()
+    .then(count => {
+      if (count > 0) console.log(`⏸️ ${count} interrupted scrape jobs marked as paused`);
+    })
+    .catch(error => console.warn('⚠️ Could not recover scrape jobs:', error.message));
+
+  startProxyPool().catch(error => console.warn('⚠️ Could not start proxy pool:', error.message));
+  startVerificationScheduler();
 });
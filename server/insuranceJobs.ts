@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { InsuranceJob } from '../types';
+import { scrapeInsuranceData } from './insuranceScraper';
+import { scrapeSafetyData } from './safetyScraper';
+import { saveCarrierInsurance, saveCarrierSafety } from './carrierStore';
+import { publishJobEvent } from './jobEvents';
+import { isRateLimitError } from './scraperUtils';
+import { classifyFailure } from './httpClient';
+
+// Recent runs kept for status lookups; only one runs at a time
+const jobs = new Map<string, InsuranceJob>();
+const MAX_KEPT_JOBS = 20;
+
+let activeJobId: string | null = null;
+let cancelRequested = false;
+
+// Updates only touch carriers already saved by the MC scraper
+const NO_CARRIER_ROW = 'No saved carrier with this USDOT number';
+
+const publishStatus = (job: InsuranceJob) => {
+  publishJobEvent(job.id, 'job_status', { message: job.status, stage: job.stage, data: { ...job } });
+};
+
+const recordFailure = (jobId: string, dotNumber: string, stage: string, error: any) => {
+  if (isRateLimitError(error)) {
+    publishJobEvent(jobId, 'rate_limited', { dotNumber, stage, message: error.message });
+  }
+  publishJobEvent(jobId, 'failed', { dotNumber, stage, message: error.message, data: { reason: classifyFailure(error) } });
+};
+
+// Stage 1: insurance filings from SearchCarriers
+const runInsuranceStage = async (job: InsuranceJob, dotNumbers: string[]) => {
+  job.stage = 'INSURANCE';
+  publishStatus(job);
+
+  for (const dot of dotNumbers) {
+    if (cancelRequested) return;
+    publishJobEvent(job.id, 'attempt', { dotNumber: dot, stage: job.stage });
+
+    try {
+      const { policies } = await scrapeInsuranceData(dot);
+      if (policies.length > 0) {
+        job.insFound++;
+        publishJobEvent(job.id, 'success', { dotNumber: dot, stage: job.stage, data: { policies } });
+      } else {
+        publishJobEvent(job.id, 'not_found', { dotNumber: dot, stage: job.stage, data: { policies } });
+      }
+
+      try {
+        if (await saveCarrierInsurance(dot, policies)) {
+          job.dbSaved++;
+          publishJobEvent(job.id, 'db_save', { dotNumber: dot, stage: job.stage, data: { saved: true } });
+        } else {
+          publishJobEvent(job.id, 'db_save', { dotNumber: dot, stage: job.stage, data: { saved: false }, message: NO_CARRIER_ROW });
+        }
+      } catch (saveError: any) {
+        publishJobEvent(job.id, 'db_save', { dotNumber: dot, stage: job.stage, data: { saved: false }, message: saveError.message });
+      }
+    } catch (error: any) {
+      job.insFailed++;
+      recordFailure(job.id, dot, job.stage, error);
+    }
+
+    job.insProcessed++;
+    publishStatus(job);
+  }
+};
+
+// Stage 2: SMS safety rating, BASIC measures and OOS rates
+const runSafetyStage = async (job: InsuranceJob, dotNumbers: string[]) => {
+  job.stage = 'SAFETY';
+  publishStatus(job);
+
+  for (const dot of dotNumbers) {
+    if (cancelRequested) return;
+    publishJobEvent(job.id, 'attempt', { dotNumber: dot, stage: job.stage });
+
+    try {
+      const safety = await scrapeSafetyData(dot);
+      if (safety.rating !== 'N/A') {
+        job.safetyFound++;
+        publishJobEvent(job.id, 'success', { dotNumber: dot, stage: job.stage, data: { safety } });
+      } else {
+        publishJobEvent(job.id, 'not_found', { dotNumber: dot, stage: job.stage, data: { safety } });
+      }
+
+      try {
+        if (await saveCarrierSafety(dot, safety)) {
+          job.dbSaved++;
+          publishJobEvent(job.id, 'db_save', { dotNumber: dot, stage: job.stage, data: { saved: true } });
+        } else {
+          publishJobEvent(job.id, 'db_save', { dotNumber: dot, stage: job.stage, data: { saved: false }, message: NO_CARRIER_ROW });
+        }
+      } catch (saveError: any) {
+        publishJobEvent(job.id, 'db_save', { dotNumber: dot, stage: job.stage, data: { saved: false }, message: saveError.message });
+      }
+    } catch (error: any) {
+      job.safetyFailed++;
+      recordFailure(job.id, dot, job.stage, error);
+    }
+
+    job.safetyProcessed++;
+    publishStatus(job);
+  }
+};
+
+const runJob = async (job: InsuranceJob, dotNumbers: string[]) => {
+  try {
+    await runInsuranceStage(job, dotNumbers);
+    await runSafetyStage(job, dotNumbers);
+    job.status = cancelRequested ? 'cancelled' : 'completed';
+    console.log(`✅ Insurance job ${job.id} ${job.status} (${job.dbSaved} DB updates)`);
+  } catch (error: any) {
+    job.status = 'cancelled';
+    console.error(`❌ Insurance job ${job.id} error:`, error.message);
+  } finally {
+    job.stage = 'IDLE';
+    job.finishedAt = new Date().toISOString();
+    activeJobId = null;
+    cancelRequested = false;
+    publishStatus(job);
+  }
+};
+
+/**
+ * Start an insurance + safety run over a list of USDOT numbers. Returns null when one is already running.
+ */
+export const startInsuranceJob = (dotNumbers: string[]): InsuranceJob | null => {
+  if (activeJobId) return null;
+
+  const job: InsuranceJob = {
+    id: randomUUID(),
+    status: 'running',
+    stage: 'IDLE',
+    total: dotNumbers.length,
+    insProcessed: 0,
+    insFound: 0,
+    insFailed: 0,
+    safetyProcessed: 0,
+    safetyFound: 0,
+    safetyFailed: 0,
+    dbSaved: 0,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+
+  jobs.set(job.id, job);
+  if (jobs.size > MAX_KEPT_JOBS) jobs.delete(jobs.keys().next().value as string);
+
+  activeJobId = job.id;
+  cancelRequested = false;
+  console.log(`📡 Insurance job ${job.id} started for ${dotNumbers.length} USDOT numbers`);
+  runJob(job, dotNumbers);
+
+  return job;
+};
+
+export const getInsuranceJob = (id: string): InsuranceJob | null => jobs.get(id) || null;
+
+export const getActiveInsuranceJob = (): InsuranceJob | null => (activeJobId ? jobs.get(activeJobId) || null : null);
+
+/**
+ * Stop the running job after the USDOT number it is working on.
+ */
+export const cancelInsuranceJob = (id: string): InsuranceJob | null => {
+  const job = jobs.get(id);
+  if (!job) return null;
+  if (activeJobId === id) cancelRequested = true;
+  return job;
+};
@@ -0,0 +1,90 @@
+import { InsurancePolicy } from '../types';
+import { BROWSER_HEADERS } from './scraperUtils';
+import { outboundRequest } from './httpClient';
+import { cachedLookup, LookupOptions } from './responseCache';
+
+const INSURANCE_TYPES: Record<string, string> = {
+  '1': 'BI&PD',
+  '2': 'CARGO',
+  '3': 'BOND',
+};
+
+const INSURANCE_CLASSES: Record<string, string> = {
+  'P': 'PRIMARY',
+  'E': 'EXCESS',
+};
+
+/**
+ * Format a coverage amount as dollars. SearchCarriers reports most limits in
+ * thousands, so values under 10,000 are scaled ×1000 (750 → $750,000).
+ */
+export const normalizeCoverageAmount = (value: any): string => {
+  if (value === undefined || value === null || value === '' || value === 'N/A') return 'N/A';
+  if (isNaN(Number(value))) return value.toString();
+
+  const num = Number(value);
+  if (num < 10000 && num > 0) {
+    return `$${(num * 1000).toLocaleString('en-US')}`;
+  }
+  return `$${num.toLocaleString('en-US')}`;
+};
+
+/**
+ * Map one raw SearchCarriers filing onto our InsurancePolicy model.
+ */
+export const normalizeInsurancePolicy = (p: any, dot: string): InsurancePolicy => {
+  const carrier = p.name_company || p.insurance_company || p.insurance_company_name || p.company_name || 'NOT SPECIFIED';
+  const policyNumber = p.policy_no || p.policy_number || p.pol_num || 'N/A';
+  const effectiveDate = p.effective_date ? p.effective_date.toString().split(' ')[0] : 'N/A';
+  const coverage = normalizeCoverageAmount(p.max_cov_amount || p.coverage_to || p.coverage_amount);
+
+  const typeCode = (p.ins_type_code || 'N/A').toString();
+  const classCode = (p.ins_class_code || 'N/A').toString().toUpperCase();
+
+  return {
+    dot,
+    carrier: carrier.toString().toUpperCase(),
+    policyNumber: policyNumber.toString().toUpperCase(),
+    effectiveDate,
+    coverageAmount: coverage,
+    type: (INSURANCE_TYPES[typeCode] || typeCode).toUpperCase(),
+    class: INSURANCE_CLASSES[classCode] || classCode
+  };
+};
+
+/**
+ * Normalize a SearchCarriers insurance payload, which is either `{ data: [...] }` or a bare array.
+ */
+export const normalizeInsurancePolicies = (payload: any, dot: string): InsurancePolicy[] => {
+  const rawData = payload?.data || (Array.isArray(payload) ? payload : []);
+  if (!Array.isArray(rawData)) return [];
+  return rawData.map((p: any) => normalizeInsurancePolicy(p, dot));
+};
+
+/**
+ * Fetch insurance filings for a USDOT number from SearchCarriers.
+ * Served from the response cache unless options.forceRefresh is set.
+ */
+export const scrapeInsuranceData = (
+  dotNumber: string,
+  options?: LookupOptions
+): Promise<{ policies: InsurancePolicy[]; raw: any }> =>
+  cachedLookup('insurance', dotNumber, async () => {
+    const response = await outboundRequest({
+      method: 'get',
+      url: `https://searchcarriers.com/company/${dotNumber}/insurances`,
+      headers: { ...BROWSER_HEADERS, 'Accept': 'application/json, text/plain, */*' },
+      timeout: 30000,
+    }, options);
+
+    let raw = response.data;
+    if (typeof raw === 'string') {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        throw new Error('Unexpected non-JSON response from SearchCarriers');
+      }
+    }
+
+    return { policies: normalizeInsurancePolicies(raw, dotNumber), raw };
+  }, options);
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { JobEvent, JobEventType } from '../types';
+
+// Events kept per job so late or reconnecting viewers get the whole log
+const MAX_EVENTS_PER_JOB = 5000;
+// Older job channels are dropped once this many are held in memory
+const MAX_CHANNELS = 50;
+const HEARTBEAT_MS = 15000;
+
+interface Channel {
+  events: JobEvent[];
+  nextId: number;
+  listeners: Set<(event: JobEvent) => void>;
+}
+
+const channels = new Map<string, Channel>();
+
+const getChannel = (jobId: string): Channel => {
+  let channel = channels.get(jobId);
+  if (!channel) {
+    channel = { events: [], nextId: 1, listeners: new Set() };
+    channels.set(jobId, channel);
+
+    // Map keeps insertion order, so the first idle channel is the oldest
+    if (channels.size > MAX_CHANNELS) {
+      for (const [id, old] of channels) {
+        if (old.listeners.size === 0 && id !== jobId) {
+          channels.delete(id);
+          break;
+        }
+      }
+    }
+  }
+  return channel;
+};
+
+/**
+ * Record an event for a job and push it to everyone watching.
+ */
+export const publishJobEvent = (
+  jobId: string,
+  type: JobEventType,
+  fields: Omit<JobEvent, 'id' | 'jobId' | 'type' | 'at'> = {}
+): JobEvent => {
+  const channel = getChannel(jobId);
+  const event: JobEvent = { id: channel.nextId++, jobId, type, at: new Date().toISOString(), ...fields };
+
+  channel.events.push(event);
+  if (channel.events.length > MAX_EVENTS_PER_JOB) channel.events.shift();
+
+  channel.listeners.forEach(listener => listener(event));
+  return event;
+};
+
+/**
+ * Serve a job's events as Server-Sent Events. Buffered events after the client's
+ * Last-Event-ID (or ?after=) are replayed first, then new events are streamed live.
+ */
+export const streamJobEvents = (req: Request, res: Response, jobId: string) => {
+  const afterId = Number(req.header('Last-Event-ID') || req.query.after) || 0;
+  const channel = getChannel(jobId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const send = (event: JobEvent) => {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  channel.events.filter(e => e.id > afterId).forEach(send);
+  channel.listeners.add(send);
+
+  // Keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    channel.listeners.delete(send);
+  });
+};
@@ -0,0 +1,75 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { LiCarrierDetails } from '../types';
+import { cleanText, fetchHtml } from './scraperUtils';
+import { cachedLookup, LookupOptions } from './responseCache';
+
+const LI_BASE_URL = 'https://li-public.fmcsa.dot.gov/LIVIEW/';
+
+// Text of the cell after every <th>/<td> label matching the pattern
+const valuesByLabel = ($: CheerioAPI, pattern: RegExp): string[] => {
+  const values: string[] = [];
+  $('th, td').each((_, cell) => {
+    const label = cleanText($(cell).text());
+    // Labels are short; skip cells that merely contain the words in a longer sentence
+    if (label.length > 60 || !pattern.test(label)) return;
+    const value = cleanText($(cell).next().text());
+    if (value) values.push(value);
+  });
+  return values;
+};
+
+/**
+ * Parse the L&I carrier detail page (pkg_carrquery.prc_getdetail) into BOC-3 status,
+ * the blanket process-agent company and the listed company officers.
+ */
+export const parseLiCarrierDetail = (html: string): LiCarrierDetails => {
+  const $ = cheerio.load(html);
+
+  const boc3 = valuesByLabel($, /^BOC-?3:?$/i)[0] || '';
+  // Only the "Company Officer 1:" / "Company Representative:" rows; other cells mention officers too
+  const reps = valuesByLabel($, /^Company (Officer|Representative)\s*\d*:?$/i)
+    .filter(name => !/^(none|n\/a)$/i.test(name));
+
+  return {
+    boc3OnFile: /^yes/i.test(boc3) ? true : /^no/i.test(boc3) ? false : null,
+    boc3Agent: valuesByLabel($, /^Blanket Company:?$/i)[0] || '',
+    companyReps: Array.from(new Set(reps)),
+  };
+};
+
+const fetchLiCarrierDetails = async (dotNumber: string, options?: LookupOptions): Promise<LiCarrierDetails | null> => {
+  const params = new URLSearchParams({
+    n_dotno: dotNumber,
+    s_prefix: 'MC',
+    n_docketno: '',
+    s_legalname: '',
+    s_dbaname: '',
+    s_state: '',
+  });
+  const listHtml = await fetchHtml(`${LI_BASE_URL}pkg_carrquery.prc_carrlist?${params.toString()}`, options);
+  if (!listHtml) return null;
+
+  // Carriers without operating authority aren't listed in L&I
+  const detailHref = cheerio.load(listHtml)('a[href*="prc_getdetail"]').first().attr('href');
+  if (!detailHref) return null;
+
+  const detailHtml = await fetchHtml(new URL(detailHref, LI_BASE_URL).toString(), options);
+  return detailHtml ? parseLiCarrierDetail(detailHtml) : null;
+};
+
+/**
+ * Look up BOC-3 filing status and company officers for a USDOT number on the FMCSA L&I
+ * public site. Returns null when L&I has no record or can't be reached, so callers
+ * store the fields as unknown rather than "not on file".
+ */
+export const scrapeLiCarrierDetails = async (dotNumber: string, options?: LookupOptions): Promise<LiCarrierDetails | null> => {
+  if (!dotNumber || dotNumber === 'UNKNOWN') return null;
+
+  try {
+    return await cachedLookup('li', dotNumber, () => fetchLiCarrierDetails(dotNumber, options), options);
+  } catch (error: any) {
+    console.error(`⚠️ L&I lookup failed for DOT ${dotNumber}:`, error.message);
+    return null;
+  }
+};
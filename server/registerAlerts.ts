@@ -0,0 +1,10 @@
+import { FMCSARegisterEntry } from '../types';
+import { writeRegisterAlerts } from '../services/registerAlertMatching';
+import { getSupabase } from './supabase';
+
+/**
+ * Write carrier_alerts for tracked carriers in a register day's revocation-type sections,
+ * with the server's Supabase client. Returns the alert count.
+ */
+export const matchRegisterAlerts = (entries: FMCSARegisterEntry[], fetchDate: string): Promise<number> =>
+  writeRegisterAlerts(getSupabase(), entries, fetchDate);
@@ -0,0 +1,223 @@
+import { FMCSARegisterEntry } from '../types';
+import { getSupabase } from './supabase';
+import { formatDateForFMCSA, scrapeRegister } from './fmcsaRegister';
+import { enrichRegisterDate } from './registerEnrichment';
+import { matchRegisterAlerts } from './registerAlerts';
+
+export type RegisterDayStatus = 'success' | 'failed' | 'empty';
+
+export interface RegisterDayResult {
+  date: string;
+  status: RegisterDayStatus;
+  entryCount: number;
+  error?: string;
+}
+
+export interface BackfillOptions {
+  from: string;            // YYYY-MM-DD
+  to: string;              // YYYY-MM-DD
+  delayMs?: number;        // pause between register days
+  enrich?: boolean;        // link new grants to carrier records after each day
+  onDay?: (result: RegisterDayResult) => void;
+}
+
+export interface BackfillSummary {
+  from: string;
+  to: string;
+  requested: number;
+  skipped: string[];
+  results: RegisterDayResult[];
+}
+
+export const DEFAULT_BACKFILL_DELAY_MS = 3000;
+const MIN_BACKFILL_DELAY_MS = 1000;
+const MAX_BACKFILL_DAYS = 366;
+const UPSERT_CHUNK_SIZE = 500;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+let activeBackfill: Promise<void> | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * List the weekdays between two YYYY-MM-DD dates, inclusive. The register is
+ * not published on weekends.
+ */
+export const listRegisterDays = (from: string, to: string): string[] => {
+  if (!ISO_DATE.test(from) || !ISO_DATE.test(to)) {
+    throw new Error('Dates must be in YYYY-MM-DD format');
+  }
+
+  const days: string[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  if (cursor > end) throw new Error('"from" must not be after "to"');
+
+  while (cursor <= end) {
+    const weekday = cursor.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      days.push(cursor.toISOString().split('T')[0]);
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  if (days.length > MAX_BACKFILL_DAYS) {
+    throw new Error(`Backfill range is limited to ${MAX_BACKFILL_DAYS} register days`);
+  }
+  return days;
+};
+
+// Days already covered, either by an earlier backfill (including days with no register,
+// like weekends and holidays) or by a manual "Fetch Live"
+const findCoveredDays = async (days: string[]): Promise<Set<string>> => {
+  const supabase = getSupabase();
+  const covered = new Set<string>();
+
+  const { data, error } = await supabase
+    .from('fmcsa_register_days')
+    .select('register_date')
+    .in('register_date', days)
+    .in('status', ['success', 'empty']);
+  if (error) throw new Error(error.message);
+  (data || []).forEach(row => covered.add(row.register_date));
+
+  for (const day of days) {
+    if (covered.has(day)) continue;
+    const { count, error: countError } = await supabase
+      .from('fmcsa_register')
+      .select('id', { count: 'exact', head: true })
+      .eq('date_fetched', day);
+    if (countError) throw new Error(countError.message);
+    if (count && count > 0) covered.add(day);
+  }
+
+  return covered;
+};
+
+/**
+ * Save parsed register entries for one day, same row shape as the browser save path.
+ */
+export const saveRegisterEntries = async (entries: FMCSARegisterEntry[], fetchDate: string): Promise<void> => {
+  const supabase = getSupabase();
+  const now = new Date().toISOString();
+
+  const records = entries.map(entry => ({
+    number: entry.number,
+    title: entry.title,
+    decided: entry.decided,
+    category: entry.category,
+    docket_prefix: entry.docketPrefix || null,
+    docket_number: entry.docketNumber || null,
+    legal_name: entry.legalName || null,
+    dba_name: entry.dbaName || null,
+    city: entry.city || null,
+    state: entry.state || null,
+    date_fetched: fetchDate,
+    created_at: now,
+    updated_at: now,
+  }));
+
+  for (let i = 0; i < records.length; i += UPSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('fmcsa_register')
+      .upsert(records.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'number,date_fetched' });
+    if (error) throw new Error(error.message);
+  }
+};
+
+const recordDayResult = async (result: RegisterDayResult): Promise<void> => {
+  const { error } = await getSupabase()
+    .from('fmcsa_register_days')
+    .upsert({
+      register_date: result.date,
+      status: result.status,
+      entry_count: result.entryCount,
+      error: result.error || null,
+      attempted_at: new Date().toISOString(),
+    }, { onConflict: 'register_date' });
+
+  if (error) {
+    console.error(`⚠️ Could not record backfill status for ${result.date}:`, error.message);
+  }
+};
+
+// Fetch, parse and store a single register day
+const backfillDay = async (day: string): Promise<RegisterDayResult> => {
+  try {
+    const result = await scrapeRegister(formatDateForFMCSA(new Date(`${day}T00:00:00`)));
+    if (!result || result.entries.length === 0) {
+      return { date: day, status: 'empty', entryCount: 0, error: 'No register published for this date' };
+    }
+    await saveRegisterEntries(result.entries, day);
+
+    const alerts = await matchRegisterAlerts(result.entries, day).catch(error => {
+      console.error(`⚠️ Alert matching failed for ${day}:`, error.message);
+      return 0;
+    });
+    if (alerts > 0) console.log(`🚨 ${alerts} tracked carriers flagged in the ${day} register`);
+
+    return { date: day, status: 'success', entryCount: result.entries.length };
+  } catch (error: any) {
+    return { date: day, status: 'failed', entryCount: 0, error: error.message };
+  }
+};
+
+/**
+ * Backfill the register for a date range. Weekends and days already stored are
+ * skipped, the rest are fetched one at a time with a pause between requests.
+ */
+export const runRegisterBackfill = async (options: BackfillOptions): Promise<BackfillSummary> => {
+  const { from, to, enrich, onDay } = options;
+  const delayMs = Math.max(options.delayMs ?? DEFAULT_BACKFILL_DELAY_MS, MIN_BACKFILL_DELAY_MS);
+
+  const days = listRegisterDays(from, to);
+  const covered = await findCoveredDays(days);
+  const pending = days.filter(day => !covered.has(day));
+  const results: RegisterDayResult[] = [];
+
+  console.log(`📅 Register backfill ${from} → ${to}: ${pending.length} to fetch, ${covered.size} already covered`);
+
+  for (let i = 0; i < pending.length; i++) {
+    const result = await backfillDay(pending[i]);
+    await recordDayResult(result);
+    results.push(result);
+
+    if (enrich && result.status === 'success') {
+      await enrichRegisterDate(result.date).catch(error => {
+        console.error(`⚠️ Enrichment failed for ${result.date}:`, error.message);
+      });
+    }
+    onDay?.(result);
+
+    if (i < pending.length - 1) await sleep(delayMs);
+  }
+
+  return { from, to, requested: days.length, skipped: Array.from(covered).sort(), results };
+};
+
+export const isBackfillRunning = (): boolean => activeBackfill !== null;
+
+/**
+ * Start a backfill in the background. Returns false if one is already running.
+ */
+export const startRegisterBackfill = (options: BackfillOptions): boolean => {
+  if (activeBackfill) return false;
+
+  // Validate up front so bad ranges fail the request instead of the background run
+  listRegisterDays(options.from, options.to);
+
+  activeBackfill = runRegisterBackfill(options)
+    .then(summary => {
+      const failed = summary.results.filter(r => r.status === 'failed').length;
+      console.log(`✅ Register backfill ${summary.from} → ${summary.to} finished (${summary.results.length} fetched, ${failed} failed)`);
+    })
+    .catch(error => {
+      console.error('❌ Register backfill error:', error.message);
+    })
+    .finally(() => {
+      activeBackfill = null;
+    });
+
+  return true;
+};
@@ -0,0 +1,140 @@
+import { getSupabase } from './supabase';
+import { scrapeCarrierSnapshot } from './carrierScraper';
+import { findCarriersByMc, saveCarrier } from './carrierStore';
+
+// Register sections that announce new operating authority
+export const ENRICHABLE_CATEGORIES = ['CERTIFICATE, PERMIT, LICENSE', 'GRANT DECISION NOTICES'];
+
+export type EnrichmentStatus = 'linked' | 'not_found' | 'failed';
+
+export interface EnrichmentResult {
+  mcNumber: string;
+  status: EnrichmentStatus;
+  dotNumber?: string;
+  scraped: boolean;
+  error?: string;
+}
+
+export interface EnrichmentOptions {
+  delayMs?: number;        // pause between SAFER requests
+  onEntry?: (result: EnrichmentResult) => void;
+}
+
+export interface EnrichmentSummary {
+  date: string;
+  results: EnrichmentResult[];
+}
+
+export const DEFAULT_ENRICH_DELAY_MS = 1500;
+const MIN_ENRICH_DELAY_MS = 500;
+const LOOKUP_CHUNK_SIZE = 200;
+
+let activeEnrichment: Promise<void> | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// MC dockets from grant sections for one register day that have not been enriched yet
+const findPendingDockets = async (date: string): Promise<string[]> => {
+  const { data, error } = await getSupabase()
+    .from('fmcsa_register')
+    .select('docket_number')
+    .eq('date_fetched', date)
+    .eq('docket_prefix', 'MC')
+    .in('category', ENRICHABLE_CATEGORIES)
+    .is('enriched_at', null);
+
+  if (error) throw new Error(error.message);
+  return Array.from(new Set((data || []).map(row => row.docket_number).filter(Boolean)));
+};
+
+const recordEnrichment = async (date: string, result: EnrichmentResult): Promise<void> => {
+  const { error } = await getSupabase()
+    .from('fmcsa_register')
+    .update({
+      carrier_dot_number: result.dotNumber || null,
+      enrichment_status: result.status,
+      enriched_at: new Date().toISOString(),
+    })
+    .eq('date_fetched', date)
+    .eq('docket_prefix', 'MC')
+    .eq('docket_number', result.mcNumber);
+
+  if (error) {
+    console.error(`⚠️ Could not record enrichment for MC ${result.mcNumber}:`, error.message);
+  }
+};
+
+// Scrape and store one new docket
+const enrichDocket = async (mcNumber: string): Promise<EnrichmentResult> => {
+  try {
+    const carrier = await scrapeCarrierSnapshot(mcNumber);
+    if (!carrier) {
+      return { mcNumber, status: 'not_found', scraped: true };
+    }
+    await saveCarrier(carrier);
+    return { mcNumber, status: 'linked', dotNumber: carrier.dotNumber, scraped: true };
+  } catch (error: any) {
+    return { mcNumber, status: 'failed', scraped: true, error: error.message };
+  }
+};
+
+/**
+ * Link a saved register day's new grants to carrier records. Dockets already in
+ * `carriers` are linked directly, the rest are scraped from SAFER and upserted.
+ */
+export const enrichRegisterDate = async (date: string, options: EnrichmentOptions = {}): Promise<EnrichmentSummary> => {
+  const delayMs = Math.max(options.delayMs ?? DEFAULT_ENRICH_DELAY_MS, MIN_ENRICH_DELAY_MS);
+  const dockets = await findPendingDockets(date);
+  const results: EnrichmentResult[] = [];
+
+  const known = new Map<string, string>();
+  for (let i = 0; i < dockets.length; i += LOOKUP_CHUNK_SIZE) {
+    const found = await findCarriersByMc(dockets.slice(i, i + LOOKUP_CHUNK_SIZE));
+    found.forEach((dot, mc) => known.set(mc, dot));
+  }
+
+  const toScrape = dockets.filter(mc => !known.has(mc));
+  console.log(`🔗 Enriching register ${date}: ${dockets.length} grants, ${known.size} already stored, ${toScrape.length} to scrape`);
+
+  for (const [mcNumber, dotNumber] of known) {
+    const result: EnrichmentResult = { mcNumber, status: 'linked', dotNumber, scraped: false };
+    await recordEnrichment(date, result);
+    results.push(result);
+    options.onEntry?.(result);
+  }
+
+  for (let i = 0; i < toScrape.length; i++) {
+    const result = await enrichDocket(toScrape[i]);
+    // Failed scrapes stay pending so the next run retries them
+    if (result.status !== 'failed') await recordEnrichment(date, result);
+    results.push(result);
+    options.onEntry?.(result);
+
+    if (i < toScrape.length - 1) await sleep(delayMs);
+  }
+
+  return { date, results };
+};
+
+export const isEnrichmentRunning = (): boolean => activeEnrichment !== null;
+
+/**
+ * Start enriching a register day in the background. Returns false if a run is already in progress.
+ */
+export const startRegisterEnrichment = (date: string, options: EnrichmentOptions = {}): boolean => {
+  if (activeEnrichment) return false;
+
+  activeEnrichment = enrichRegisterDate(date, options)
+    .then(summary => {
+      const linked = summary.results.filter(r => r.status === 'linked').length;
+      console.log(`✅ Register enrichment ${summary.date} finished (${linked}/${summary.results.length} linked)`);
+    })
+    .catch(error => {
+      console.error('❌ Register enrichment error:', error.message);
+    })
+    .finally(() => {
+      activeEnrichment = null;
+    });
+
+  return true;
+};
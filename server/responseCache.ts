@@ -0,0 +1,191 @@
+import { CacheSource } from '../types';
+import { OutboundOptions } from './httpClient';
+import { getSupabase } from './supabase';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a lookup is served from cache, per upstream source
+const SOURCE_TTL_MS: Record<CacheSource, number> = {
+  safer: 12 * HOUR_MS,
+  sms: 24 * HOUR_MS,
+  insurance: 6 * HOUR_MS,
+  li: 24 * HOUR_MS,
+};
+// "No record" answers are kept briefly so new registrations show up soon
+const NOT_FOUND_TTL_MS = HOUR_MS;
+const MAX_MEMORY_ENTRIES = 5000;
+const PRUNE_INTERVAL_MS = HOUR_MS;
+
+// Also read and write the response_cache table, so the cache survives restarts
+const PERSIST = process.env.RESPONSE_CACHE_PERSIST === 'true';
+
+export interface LookupOptions extends OutboundOptions {
+  // Skip the cache and fetch from the upstream, then cache the fresh answer
+  forceRefresh?: boolean;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const memory = new Map<string, CacheEntry>();
+// Lookups in progress, so concurrent callers share one upstream request
+const inFlight = new Map<string, Promise<unknown>>();
+const stats: Record<CacheSource, { hits: number; misses: number; refreshes: number }> = {
+  safer: { hits: 0, misses: 0, refreshes: 0 },
+  sms: { hits: 0, misses: 0, refreshes: 0 },
+  insurance: { hits: 0, misses: 0, refreshes: 0 },
+  li: { hits: 0, misses: 0, refreshes: 0 },
+};
+
+const memoryKey = (source: CacheSource, key: string) => `${source}:${key}`;
+
+const remember = (id: string, entry: CacheEntry) => {
+  // Re-inserting keeps the Map in least-recently-used order
+  memory.delete(id);
+  memory.set(id, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value as string);
+  }
+};
+
+const readPersisted = async (source: CacheSource, key: string): Promise<CacheEntry | null> => {
+  try {
+    const { data, error } = await getSupabase()
+      .from('response_cache')
+      .select('payload, expires_at')
+      .eq('source', source)
+      .eq('cache_key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? { value: data.payload, expiresAt: new Date(data.expires_at).getTime() } : null;
+  } catch (error: any) {
+    console.warn(`⚠️ Response cache read failed for ${source}:${key}:`, error.message);
+    return null;
+  }
+};
+
+const writePersisted = async (source: CacheSource, key: string, entry: CacheEntry) => {
+  try {
+    const { error } = await getSupabase()
+      .from('response_cache')
+      .upsert({
+        source,
+        cache_key: key,
+        payload: entry.value,
+        fetched_at: new Date().toISOString(),
+        expires_at: new Date(entry.expiresAt).toISOString(),
+      }, { onConflict: 'source,cache_key' });
+    if (error) throw new Error(error.message);
+  } catch (error: any) {
+    console.warn(`⚠️ Response cache write failed for ${source}:${key}:`, error.message);
+  }
+};
+
+/**
+ * Serve a lookup from cache, or run `fetcher` and cache what it returns for the
+ * source's TTL. `null` (no record) is cached for a shorter time; errors are not
+ * cached. With forceRefresh the cache is bypassed and overwritten.
+ */
+export const cachedLookup = async <T>(
+  source: CacheSource,
+  key: string,
+  fetcher: () => Promise<T>,
+  options: LookupOptions = {}
+): Promise<T> => {
+  const id = memoryKey(source, key);
+
+  if (!options.forceRefresh) {
+    const entry = memory.get(id) || (PERSIST ? await readPersisted(source, key) : null);
+    if (entry && entry.expiresAt > Date.now()) {
+      stats[source].hits++;
+      remember(id, entry);
+      // Callers get their own copy so edits to a result never leak into the cache
+      return structuredClone(entry.value) as T;
+    }
+
+    // Joiners share the first caller's result, so they get copies of it too
+    const pending = inFlight.get(id);
+    if (pending) return pending.then(value => structuredClone(value)) as Promise<T>;
+    stats[source].misses++;
+  } else {
+    stats[source].refreshes++;
+  }
+
+  const request = (async () => {
+    const value = await fetcher();
+    const entry: CacheEntry = {
+      value: structuredClone(value),
+      expiresAt: Date.now() + (value === null ? NOT_FOUND_TTL_MS : SOURCE_TTL_MS[source]),
+    };
+    remember(id, entry);
+    if (PERSIST) await writePersisted(source, key, entry);
+    return value;
+  })();
+
+  inFlight.set(id, request);
+  // A forceRefresh may have replaced this entry with a newer request; leave that one in place
+  const settle = () => {
+    if (inFlight.get(id) === request) inFlight.delete(id);
+  };
+  request.then(settle, settle);
+  return request;
+};
+
+/**
+ * Drop cached lookups, for one source or all of them.
+ */
+export const clearResponseCache = async (source?: CacheSource): Promise<void> => {
+  for (const id of Array.from(memory.keys())) {
+    if (!source || id.startsWith(`${source}:`)) memory.delete(id);
+  }
+
+  if (PERSIST) {
+    const query = getSupabase().from('response_cache').delete();
+    const { error } = await (source ? query.eq('source', source) : query.neq('source', ''));
+    if (error) throw new Error(error.message);
+  }
+};
+
+/**
+ * Entry counts, TTLs and hit rates per source, for /health.
+ */
+export const getResponseCacheStats = () => {
+  const counts: Record<string, number> = {};
+  memory.forEach((_, id) => {
+    const source = id.split(':')[0];
+    counts[source] = (counts[source] || 0) + 1;
+  });
+
+  return {
+    persisted: PERSIST,
+    sources: (Object.keys(SOURCE_TTL_MS) as CacheSource[]).map(source => ({
+      source,
+      ttlMinutes: SOURCE_TTL_MS[source] / 60000,
+      entries: counts[source] || 0,
+      ...stats[source],
+    })),
+  };
+};
+
+// Expired entries are only skipped on read; prune them so memory and the table stay small
+const pruneExpired = async () => {
+  const now = Date.now();
+  memory.forEach((entry, id) => {
+    if (entry.expiresAt <= now) memory.delete(id);
+  });
+
+  if (PERSIST) {
+    const { error } = await getSupabase()
+      .from('response_cache')
+      .delete()
+      .lt('expires_at', new Date(now).toISOString());
+    if (error) throw new Error(error.message);
+  }
+};
+
+setInterval(() => {
+  pruneExpired().catch(error => console.warn('⚠️ Response cache prune failed:', error.message));
+}, PRUNE_INTERVAL_MS).unref();
@@ -0,0 +1,71 @@
+import * as cheerio from 'cheerio';
+import { BasicScore, OosRate } from '../types';
+import { cleanText, fetchHtml } from './scraperUtils';
+import { cachedLookup, LookupOptions } from './responseCache';
+
+export interface SafetyData {
+  rating: string;
+  ratingDate: string;
+  basicScores: BasicScore[];
+  oosRates: OosRate[];
+}
+
+// Column order of the tr.sumData row on the SMS Complete Profile page
+const BASIC_CATEGORIES = [
+  'Unsafe Driving',
+  'Crash Indicator',
+  'HOS Compliance',
+  'Vehicle Maintenance',
+  'Controlled Substances',
+  'Hazmat Compliance',
+  'Driver Fitness'
+];
+
+/**
+ * Parse the SMS CompleteProfile.aspx page into rating, BASIC measures and OOS rates.
+ */
+export const parseSafetyProfile = (html: string): SafetyData => {
+  const $ = cheerio.load(html);
+
+  const ratingEl = $('#Rating');
+  const rating = ratingEl.length ? cleanText(ratingEl.text()) || 'N/A' : 'N/A';
+
+  const ratingDateEl = $('#RatingDate');
+  const ratingDate = ratingDateEl.length
+    ? cleanText(ratingDateEl.text()).replace('Rating Date:', '').replace('(', '').replace(')', '').trim()
+    : 'N/A';
+
+  const basicScores: BasicScore[] = [];
+  $('tr.sumData').first().find('td').each((i, cell) => {
+    const valSpan = $(cell).find('span.val');
+    const val = valSpan.length ? cleanText(valSpan.text()) : cleanText($(cell).text());
+    if (BASIC_CATEGORIES[i]) {
+      basicScores.push({ category: BASIC_CATEGORIES[i], measure: val || '0.00' });
+    }
+  });
+
+  const oosRates: OosRate[] = [];
+  $('#SafetyRating').find('table').first().find('tbody tr').each((_, row) => {
+    const cols = $(row).find('th, td');
+    if (cols.length >= 3) {
+      oosRates.push({
+        type: cleanText(cols.eq(0).text()),
+        rate: cleanText(cols.eq(1).text()),
+        nationalAvg: cleanText(cols.eq(2).text())
+      });
+    }
+  });
+
+  return { rating, ratingDate, basicScores, oosRates };
+};
+
+/**
+ * Scrape safety rating, BASIC scores and OOS rates for a USDOT number from SMS.
+ * Served from the response cache unless options.forceRefresh is set.
+ */
+export const scrapeSafetyData = (dotNumber: string, options?: LookupOptions): Promise<SafetyData> =>
+  cachedLookup('sms', `profile:${dotNumber}`, async () => {
+    const html = await fetchHtml(`https://ai.fmcsa.dot.gov/SMS/Carrier/${dotNumber}/CompleteProfile.aspx`, options);
+    if (!html) throw new Error('Could not fetch safety data');
+    return parseSafetyProfile(html);
+  }, options);
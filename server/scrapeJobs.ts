@@ -0,0 +1,489 @@
+import { CarrierData, ListImportSummary, OutboundFailureKind, ScrapeJob, ScrapeJobResult, ScrapeJobStatus, ScrapeResultStatus, ScraperConfig } from '../types';
+import { getSupabase } from './supabase';
+import { scrapeCarrierSnapshot } from './carrierScraper';
+import { findFreshCarriers, saveCarrier } from './carrierStore';
+import { publishJobEvent } from './jobEvents';
+import { isRateLimitError } from './scraperUtils';
+import { classifyFailure } from './httpClient';
+import { normalizeIdentifier, parseTarget } from '../services/identifierList';
+
+// Same parallelism the browser scraper used
+export const JOB_CONCURRENCY = 5;
+const MAX_RECORD_COUNT = 100000;
+// List imports skip carriers refreshed within this many days unless the config says otherwise
+const DEFAULT_SKIP_FRESH_DAYS = 30;
+// Largest page PostgREST returns by default
+const RESULT_PAGE_SIZE = 1000;
+
+type StopRequest = 'paused' | 'cancelled' | null;
+
+// Jobs being worked on by this process, with any pending pause/cancel request
+const runningJobs = new Map<string, { stopRequested: StopRequest }>();
+
+// MC number at a position of the job's explicit list, or of its startPoint range
+const mcAt = (config: ScraperConfig, mcNumbers: string[] | null, index: number): string =>
+  mcNumbers ? mcNumbers[index] : String(parseInt(config.startPoint, 10) + index);
+
+const rowToJob = (row: any): ScrapeJob => ({
+  id: row.id,
+  name: row.name || (row.mc_numbers ? `List of ${row.mc_numbers.length}` : `MC ${row.config.startPoint} +${row.config.recordCount}`),
+  status: row.status,
+  config: row.config,
+  mcNumbers: row.mc_numbers,
+  retryOf: row.retry_of,
+  total: row.mc_numbers ? row.mc_numbers.length : row.config.recordCount,
+  maxResults: row.max_results,
+  nextIndex: row.next_index,
+  lastProcessedMc: row.next_index > 0 ? mcAt(row.config, row.mc_numbers, row.next_index - 1) : null,
+  importSummary: row.import_summary,
+  processedCount: row.processed_count,
+  successCount: row.success_count,
+  savedCount: row.saved_count,
+  filteredCount: row.filtered_count,
+  failedCount: row.failed_count,
+  error: row.error,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  createdAt: row.created_at,
+});
+
+const rowToResult = (row: any): ScrapeJobResult => ({
+  id: row.id,
+  jobId: row.job_id,
+  mcNumber: row.mc_number,
+  status: row.status,
+  saved: row.saved,
+  carrier: row.carrier,
+  error: row.error,
+  failureReason: row.failure_reason,
+  createdAt: row.created_at,
+});
+
+const updateJob = async (id: string, fields: Record<string, any>): Promise<ScrapeJob> => {
+  const { data, error } = await getSupabase()
+    .from('scrape_jobs')
+    .update(fields)
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+
+  const job = rowToJob(data);
+  publishJobEvent(id, 'job_status', { message: job.status, data: job });
+  return job;
+};
+
+// Move a job to running only if it still has the status we read, so two servers (or two
+// requests racing past the in-process check) can't both start it. Returns null if it changed.
+const claimJob = async (id: string, fromStatus: ScrapeJobStatus, fields: Record<string, any>): Promise<ScrapeJob | null> => {
+  const { data, error } = await getSupabase()
+    .from('scrape_jobs')
+    .update({ ...fields, status: 'running' })
+    .eq('id', id)
+    .eq('status', fromStatus)
+    .select()
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const job = rowToJob(data);
+  publishJobEvent(id, 'job_status', { message: job.status, data: job });
+  return job;
+};
+
+/**
+ * Check a submitted ScraperConfig. Returns an error message, or null when valid.
+ */
+export const validateScraperConfig = (config: ScraperConfig): string | null => {
+  if (config && config.identifiers !== undefined) {
+    if (!Array.isArray(config.identifiers) || config.identifiers.length === 0) {
+      return 'identifiers must be a non-empty list of MC or USDOT numbers';
+    }
+    if (config.identifiers.length > MAX_RECORD_COUNT) {
+      return `identifiers can hold at most ${MAX_RECORD_COUNT} entries`;
+    }
+  } else {
+    if (!config || !/^\d+$/.test(String(config.startPoint || '').trim())) {
+      return 'startPoint must be a numeric MC number';
+    }
+    const count = Number(config.recordCount);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_RECORD_COUNT) {
+      return `recordCount must be between 1 and ${MAX_RECORD_COUNT}`;
+    }
+  }
+  if (!config.includeCarriers && !config.includeBrokers) {
+    return 'Select at least one of carriers or brokers';
+  }
+  return null;
+};
+
+// Apply the entity and authority filters from the Live Scraper
+const matchesConfig = (carrier: CarrierData, config: ScraperConfig): boolean => {
+  const type = (carrier.entityType || '').toUpperCase();
+  const status = (carrier.status || '').toUpperCase();
+  const isCarrier = type.includes('CARRIER');
+  const isBroker = type.includes('BROKER');
+
+  if (!config.includeCarriers && isCarrier && !isBroker) return false;
+  if (!config.includeBrokers && isBroker && !isCarrier) return false;
+  if (config.onlyAuthorized && (status.includes('NOT AUTHORIZED') || !status.includes('AUTHORIZED'))) return false;
+  return true;
+};
+
+// Scrape one MC number (or "DOT<number>" target), store it if it passes the filters, and record the outcome
+const processMc = async (jobId: string, mcNumber: string, config: ScraperConfig) => {
+  let status: ScrapeResultStatus;
+  let carrier: CarrierData | null = null;
+  let saved = false;
+  let error: string | null = null;
+  let failureReason: OutboundFailureKind | null = null;
+
+  publishJobEvent(jobId, 'attempt', { mcNumber });
+
+  try {
+    // The Live Scraper's "Use Secure Proxy" toggle picks the proxy pool or a direct connection
+    const target = parseTarget(mcNumber);
+    const outbound = { useProxy: config.useProxy };
+    carrier = target?.kind === 'DOT'
+      ? await scrapeCarrierSnapshot(target.number, 'USDOT', outbound)
+      : await scrapeCarrierSnapshot(mcNumber, 'MC_MX', outbound);
+    if (!carrier) {
+      status = 'not_found';
+      failureReason = 'not_found';
+      publishJobEvent(jobId, 'not_found', { mcNumber });
+    } else if (!matchesConfig(carrier, config)) {
+      status = 'filtered';
+      publishJobEvent(jobId, 'filtered', { mcNumber, dotNumber: carrier.dotNumber, message: carrier.entityType });
+    } else {
+      status = 'success';
+      publishJobEvent(jobId, 'success', { mcNumber, dotNumber: carrier.dotNumber, data: carrier });
+      try {
+        await saveCarrier(carrier);
+        saved = true;
+      } catch (saveError: any) {
+        error = `DB save failed: ${saveError.message}`;
+      }
+      publishJobEvent(jobId, 'db_save', { mcNumber, data: { saved }, message: error || undefined });
+    }
+  } catch (scrapeError: any) {
+    failureReason = classifyFailure(scrapeError);
+    status = failureReason === 'not_found' ? 'not_found' : 'failed';
+    error = scrapeError.message;
+    if (isRateLimitError(scrapeError)) {
+      publishJobEvent(jobId, 'rate_limited', { mcNumber, message: error || undefined });
+    }
+    publishJobEvent(jobId, status, { mcNumber, message: error || undefined, data: { reason: failureReason } });
+  }
+
+  const { error: resultError } = await getSupabase()
+    .from('scrape_job_results')
+    .upsert({
+      job_id: jobId,
+      mc_number: mcNumber,
+      status,
+      saved,
+      dot_number: carrier?.dotNumber || null,
+      legal_name: carrier?.legalName || null,
+      carrier: status === 'success' ? carrier : null,
+      error,
+      failure_reason: failureReason,
+    }, { onConflict: 'job_id,mc_number' });
+
+  if (resultError) {
+    console.error(`⚠️ Could not record job result for MC ${mcNumber}:`, resultError.message);
+  }
+
+  return { status, saved };
+};
+
+// Work through the job's MCs from its cursor until done, paused or cancelled
+const runJob = async (job: ScrapeJob): Promise<void> => {
+  const control = runningJobs.get(job.id)!;
+  const total = job.total;
+  let current = job;
+
+  try {
+    while (current.nextIndex < total) {
+      if (control.stopRequested) {
+        await updateJob(job.id, {
+          status: control.stopRequested,
+          finished_at: control.stopRequested === 'cancelled' ? new Date().toISOString() : null,
+        });
+        console.log(`⏸️ Scrape job ${job.id} ${control.stopRequested} at offset ${current.nextIndex}`);
+        return;
+      }
+
+      const batchEnd = Math.min(current.nextIndex + JOB_CONCURRENCY, total);
+      const mcNumbers = Array.from({ length: batchEnd - current.nextIndex }, (_, i) => mcAt(job.config, job.mcNumbers, current.nextIndex + i));
+      const outcomes = await Promise.all(mcNumbers.map(mc => processMc(job.id, mc, job.config)));
+
+      current = await updateJob(job.id, {
+        next_index: batchEnd,
+        processed_count: current.processedCount + outcomes.length,
+        success_count: current.successCount + outcomes.filter(o => o.status === 'success').length,
+        saved_count: current.savedCount + outcomes.filter(o => o.saved).length,
+        filtered_count: current.filteredCount + outcomes.filter(o => o.status === 'filtered').length,
+        failed_count: current.failedCount + outcomes.filter(o => o.status === 'not_found' || o.status === 'failed').length,
+      });
+
+      if (current.maxResults !== null && current.successCount >= current.maxResults) {
+        console.log(`⛔ Scrape job ${job.id} reached its result limit of ${current.maxResults}`);
+        break;
+      }
+    }
+
+    await updateJob(job.id, { status: 'completed', finished_at: new Date().toISOString() });
+    console.log(`✅ Scrape job ${job.id} completed (${current.successCount} found, ${current.savedCount} saved)`);
+  } catch (error: any) {
+    console.error(`❌ Scrape job ${job.id} failed:`, error.message);
+    await updateJob(job.id, { status: 'failed', error: error.message, finished_at: new Date().toISOString() })
+      .catch(() => undefined);
+  } finally {
+    runningJobs.delete(job.id);
+  }
+};
+
+/**
+ * Validate and dedupe an uploaded identifier list, then drop carriers already fresh
+ * in the carriers table. Returns the targets left to scrape and what was dropped.
+ */
+export const prepareIdentifierList = async (
+  identifiers: string[],
+  skipFreshDays: number = DEFAULT_SKIP_FRESH_DAYS
+): Promise<{ targets: string[]; summary: ListImportSummary }> => {
+  const seen = new Set<string>();
+  let invalid = 0;
+  let duplicates = 0;
+
+  identifiers.forEach(raw => {
+    const target = normalizeIdentifier(String(raw));
+    if (!target) invalid++;
+    else if (seen.has(target)) duplicates++;
+    else seen.add(target);
+  });
+
+  let targets = Array.from(seen);
+  if (skipFreshDays > 0 && targets.length > 0) {
+    const parsed = targets.map(t => parseTarget(t)!);
+    const since = new Date(Date.now() - skipFreshDays * 24 * 60 * 60 * 1000);
+    const fresh = await findFreshCarriers(
+      parsed.filter(t => t.kind === 'MC').map(t => t.number),
+      parsed.filter(t => t.kind === 'DOT').map(t => t.number),
+      since
+    );
+    targets = targets.filter((_, i) => !(parsed[i].kind === 'MC' ? fresh.mc : fresh.dot).has(parsed[i].number));
+  }
+
+  return {
+    targets,
+    summary: {
+      submitted: identifiers.length,
+      invalid,
+      duplicates,
+      fresh: seen.size - targets.length,
+      queued: targets.length,
+    },
+  };
+};
+
+/**
+ * Create a pending job for a ScraperConfig. Pass `mcNumbers` to scrape an explicit
+ * list instead of the startPoint range; a config with `identifiers` is prepared into
+ * such a list. A list with nothing left to scrape is created as completed.
+ */
+export const createScrapeJob = async (
+  config: ScraperConfig,
+  maxResults?: number | null,
+  options: { name?: string; mcNumbers?: string[]; retryOf?: string } = {}
+): Promise<ScrapeJob> => {
+  const { identifiers, ...jobConfig } = config;
+  let mcNumbers = options.mcNumbers || null;
+  let importSummary: ListImportSummary | null = null;
+
+  if (identifiers) {
+    const prepared = await prepareIdentifierList(identifiers, config.skipFreshDays ?? DEFAULT_SKIP_FRESH_DAYS);
+    mcNumbers = prepared.targets;
+    importSummary = prepared.summary;
+    console.log(`📋 List import: ${importSummary.queued} queued, ${importSummary.fresh} fresh, ${importSummary.duplicates} duplicates, ${importSummary.invalid} invalid`);
+  }
+
+  const isEmpty = mcNumbers !== null && mcNumbers.length === 0;
+  const { data, error } = await getSupabase()
+    .from('scrape_jobs')
+    .insert({
+      status: isEmpty ? 'completed' : 'pending',
+      name: options.name?.trim() || null,
+      config: { ...jobConfig, startPoint: String(jobConfig.startPoint || '').trim(), recordCount: Number(jobConfig.recordCount) || 0 },
+      mc_numbers: mcNumbers,
+      retry_of: options.retryOf || null,
+      import_summary: importSummary,
+      max_results: maxResults ?? null,
+      finished_at: isEmpty ? new Date().toISOString() : null,
+    })
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  return rowToJob(data);
+};
+
+export const getScrapeJob = async (id: string): Promise<ScrapeJob | null> => {
+  const { data, error } = await getSupabase()
+    .from('scrape_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? rowToJob(data) : null;
+};
+
+export const listScrapeJobs = async (limit = 20): Promise<ScrapeJob[]> => {
+  const { data, error } = await getSupabase()
+    .from('scrape_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data || []).map(rowToJob);
+};
+
+/**
+ * Results recorded for a job, oldest first. Pass `afterId` to fetch only newer rows.
+ */
+export const listScrapeJobResults = async (jobId: string, afterId = 0, limit = 500): Promise<ScrapeJobResult[]> => {
+  const { data, error } = await getSupabase()
+    .from('scrape_job_results')
+    .select('*')
+    .eq('job_id', jobId)
+    .gt('id', afterId)
+    .order('id', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data || []).map(rowToResult);
+};
+
+/**
+ * Start a pending job, or resume a stopped one from its checkpoint. `allowance` caps
+ * how many more matches this run may add. Returns null when the job does not exist.
+ */
+export const startScrapeJob = async (id: string, allowance?: number): Promise<ScrapeJob | null> => {
+  // Resuming before a pause took effect just withdraws the pause; a pending cancel stands
+  const control = runningJobs.get(id);
+  if (control) {
+    if (control.stopRequested === 'cancelled') {
+      throw new Error('Cannot resume a job that is being cancelled');
+    }
+    control.stopRequested = null;
+    return getScrapeJob(id);
+  }
+
+  // Reserve the job before the first await so a concurrent start or resume can't launch a second loop
+  runningJobs.set(id, { stopRequested: null });
+  let launched = false;
+
+  try {
+    const job = await getScrapeJob(id);
+    if (!job) return null;
+    if (job.status === 'running' || job.status === 'cancelled' || job.nextIndex >= job.total) {
+      throw new Error(`Cannot start a ${job.status} job`);
+    }
+
+    const running = await claimJob(id, job.status, {
+      error: null,
+      finished_at: null,
+      started_at: job.startedAt || new Date().toISOString(),
+      ...(allowance !== undefined ? { max_results: job.successCount + allowance } : {}),
+    });
+    if (!running) {
+      throw new Error('The job was started or changed by another request');
+    }
+
+    console.log(`📡 Scrape job ${id} running from MC ${mcAt(job.config, job.mcNumbers, job.nextIndex)}`);
+    launched = true;
+    runJob(running);
+    return running;
+  } finally {
+    // runJob releases the reservation when it finishes
+    if (!launched) runningJobs.delete(id);
+  }
+};
+
+// Ask a running job to stop after its current batch; jobs not running here are updated directly
+const stopScrapeJob = async (id: string, target: 'paused' | 'cancelled'): Promise<ScrapeJob | null> => {
+  const job = await getScrapeJob(id);
+  if (!job) return null;
+
+  const control = runningJobs.get(id);
+  if (control) {
+    control.stopRequested = target;
+    return job;
+  }
+
+  const stoppable: ScrapeJobStatus[] = target === 'paused' ? ['running'] : ['pending', 'running', 'paused'];
+  if (!stoppable.includes(job.status)) {
+    throw new Error(`Cannot ${target === 'paused' ? 'pause' : 'cancel'} a ${job.status} job`);
+  }
+  return updateJob(id, {
+    status: target,
+    finished_at: target === 'cancelled' ? new Date().toISOString() : null,
+  });
+};
+
+/**
+ * MCs a job could not scrape: no SAFER record or a request error.
+ */
+export const listFailedMcs = async (jobId: string): Promise<string[]> => {
+  const failed: string[] = [];
+  // Read in pages until a short one; a single select would stop at the PostgREST row cap
+  for (let offset = 0; ; offset += RESULT_PAGE_SIZE) {
+    const { data, error } = await getSupabase()
+      .from('scrape_job_results')
+      .select('mc_number')
+      .eq('job_id', jobId)
+      .in('status', ['not_found', 'failed'])
+      .order('id', { ascending: true })
+      .range(offset, offset + RESULT_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    const rows = data || [];
+    failed.push(...rows.map(row => row.mc_number));
+    if (rows.length < RESULT_PAGE_SIZE) return failed;
+  }
+};
+
+/**
+ * Start a new job over only the failed MCs of an earlier one, with the same filters.
+ */
+export const retryFailedMcs = async (id: string, allowance?: number): Promise<ScrapeJob | null> => {
+  const job = await getScrapeJob(id);
+  if (!job) return null;
+
+  const failed = await listFailedMcs(id);
+  if (failed.length === 0) {
+    throw new Error('This job has no failed MCs to retry');
+  }
+
+  const retry = await createScrapeJob(job.config, allowance ?? null, {
+    name: `${job.name} (retry ${failed.length} failed)`,
+    mcNumbers: failed,
+    retryOf: job.id,
+  });
+  return startScrapeJob(retry.id);
+};
+
+export const pauseScrapeJob = (id: string) => stopScrapeJob(id, 'paused');
+
+export const cancelScrapeJob = (id: string) => stopScrapeJob(id, 'cancelled');
+
+/**
+ * Jobs marked running by a previous server process can't still be running; park
+ * them as paused so they can be resumed from their cursor.
+ */
+export const recoverInterruptedJobs = async (): Promise<number> => {
+  const { data, error } = await getSupabase()
+    .from('scrape_jobs')
+    .update({ status: 'paused' })
+    .eq('status', 'running')
+    .select('id');
+  if (error) throw new Error(error.message);
+  return (data || []).length;
+};
@@ -0,0 +1,60 @@
+import type { CheerioAPI } from 'cheerio';
+import { classifyFailure, outboundRequest, OutboundOptions } from './httpClient';
+
+// Browser-like headers so FMCSA doesn't treat us as a bot
+export const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+// GET a page as text, returns null when the body isn't HTML
+export const fetchHtml = async (url: string, options?: OutboundOptions): Promise<string | null> => {
+  const response = await outboundRequest({
+    method: 'get',
+    url,
+    headers: BROWSER_HEADERS,
+    timeout: 30000,
+    responseType: 'text',
+  }, options);
+  return typeof response.data === 'string' ? response.data : null;
+};
+
+// True when an upstream answered with a throttling status
+export const isRateLimitError = (error: any): boolean => classifyFailure(error) === 'blocked';
+
+// Helper function to clean text
+export const cleanText = (text: string | null | undefined): string => {
+  if (!text) return '';
+  return text.replace(/\u00a0/g, ' ').replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+// Decode Cloudflare-protected emails (data-cfemail attribute)
+export const cfDecodeEmail = (encoded: string): string => {
+  try {
+    let email = '';
+    const r = parseInt(encoded.substr(0, 2), 16);
+    for (let n = 2; n < encoded.length; n += 2) {
+      const c = parseInt(encoded.substr(n, 2), 16) ^ r;
+      email += String.fromCharCode(c);
+    }
+    return email;
+  } catch (e) {
+    return '';
+  }
+};
+
+/**
+ * Find the <td> next to a <th> containing the label and return its text.
+ * <br> tags are turned into `lineSeparator` so multi-line addresses keep city/state/zip;
+ * pass ', ' to keep an address's street and city apart.
+ */
+export const findValueByLabel = ($: CheerioAPI, label: string, lineSeparator = ' '): string => {
+  const th = $('th').filter((_, el) => cleanText($(el).text()).includes(label)).first();
+  const td = th.next();
+  if (!td.length) return '';
+
+  const cell = td.clone();
+  cell.find('br').replaceWith(lineSeparator);
+  return cleanText(cell.text()).replace(/\s+,/g, ',').replace(/^[,\s]+|[,\s]+$/g, '');
+};
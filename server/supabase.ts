@@ -0,0 +1,24 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Prefer a service-role key on the server, fall back to the frontend's anon config
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Lazily create the server-side Supabase client. Scrape routes work without
+ * Supabase, so missing env only fails the routes that need the database.
+ */
+export const getSupabase = (): SupabaseClient => {
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing Supabase environment variables (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY)');
+  }
+  if (!client) {
+    client = createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false } });
+  }
+  return client;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { typedCarrierColumns } from '../carrierFields';
+
+describe('typedCarrierColumns', () => {
+  it('leaves the insurance columns out when insurance was not scraped', () => {
+    const columns = typedCarrierColumns({ powerUnits: '3' });
+    expect(columns.power_units_count).toBe(3);
+    expect(columns).not.toHaveProperty('bipd_on_file');
+    expect(columns).not.toHaveProperty('cargo_on_file');
+    expect(columns).not.toHaveProperty('bond_on_file');
+    expect(columns).not.toHaveProperty('bipd_coverage');
+  });
+
+  it('derives the insurance columns from scraped policies', () => {
+    const columns = typedCarrierColumns({
+      insurancePolicies: [
+        { dot: '1', carrier: 'ACME INSURANCE', policyNumber: 'P1', effectiveDate: '01/01/2025', coverageAmount: '$750,000', type: 'BI&PD', class: 'PRIMARY' },
+      ],
+    });
+    expect(columns).toMatchObject({ bipd_on_file: true, cargo_on_file: false, bond_on_file: false, bipd_coverage: 750000 });
+  });
+
+  it('marks every filing absent when the scrape found none', () => {
+    expect(typedCarrierColumns({ insurancePolicies: [] })).toMatchObject({
+      bipd_on_file: false,
+      cargo_on_file: false,
+      bond_on_file: false,
+      bipd_coverage: null,
+    });
+  });
+});
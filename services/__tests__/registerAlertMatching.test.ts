@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { FMCSARegisterEntry } from '../../types';
+import { alertCandidates, buildAlertRecords } from '../registerAlertMatching';
+
+const entry = (number: string, category: string, legalName = ''): FMCSARegisterEntry => {
+  const [docketPrefix, docketNumber] = number.split('-');
+  return { number, title: `${legalName} - RENO, NV`, decided: '12/01/2025', category, docketPrefix, docketNumber, legalName };
+};
+
+describe('alertCandidates', () => {
+  it('keeps MC dockets in revocation, dismissal and withdrawal sections', () => {
+    const entries = [
+      entry('MC-1', 'REVOCATION'),
+      entry('MC-2', 'DISMISSAL'),
+      entry('MC-3', 'WITHDRAWAL'),
+      entry('MC-4', 'NAME CHANGE'),
+      entry('FF-5', 'REVOCATION'),
+    ];
+    expect(alertCandidates(entries).map(e => e.number)).toEqual(['MC-1', 'MC-2', 'MC-3']);
+  });
+});
+
+describe('buildAlertRecords', () => {
+  it('builds a row for tracked carriers only, preferring the stored legal name', () => {
+    const carriers = new Map([
+      ['1', { dot_number: '111', legal_name: 'STORED NAME LLC' }],
+      ['3', { dot_number: '', legal_name: '' }],
+    ]);
+    const records = buildAlertRecords(
+      [entry('MC-1', 'REVOCATION', 'REGISTER NAME'), entry('MC-2', 'DISMISSAL'), entry('MC-3', 'WITHDRAWAL', 'GONE LLC')],
+      carriers,
+      '2025-12-01'
+    );
+
+    expect(records).toEqual([
+      {
+        mc_number: '1',
+        dot_number: '111',
+        legal_name: 'STORED NAME LLC',
+        alert_type: 'REVOCATION',
+        register_number: 'MC-1',
+        register_title: 'REGISTER NAME - RENO, NV',
+        decided: '12/01/2025',
+        register_date: '2025-12-01',
+      },
+      expect.objectContaining({ mc_number: '3', dot_number: null, legal_name: 'GONE LLC', alert_type: 'WITHDRAWAL' }),
+    ]);
+  });
+});
@@ -1,4 +1,4 @@
-import { CarrierData, InsurancePolicy, BasicScore, OosRate } from '../types';
+import { CarrierData, CarrierSearchHit, InsurancePolicy, BasicScore, OosRate, ScrapeJob, ScrapeJobResult, ScraperConfig, InsuranceJob, JobEvent, ProxyStatus } from '../types';
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
@@ -15,14 +15,42 @@ export const fetchCarrierFromBackend = async (mcNumber: string): Promise<Carrier
   }
 };
 
-export const fetchSafetyFromBackend = async (dotNumber: string): Promise<{
+export const fetchCarrierByDotFromBackend = async (dotNumber: string): Promise<CarrierData | null> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape/carrier/dot/${dotNumber}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Backend carrier fetch by USDOT error:', error);
+    return null;
+  }
+};
+
+export const searchCarriersByNameFromBackend = async (name: string): Promise<CarrierSearchHit[]> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape/carrier-search?name=${encodeURIComponent(name)}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    return data.hits || [];
+  } catch (error) {
+    console.error('Backend carrier name search error:', error);
+    return [];
+  }
+};
+
+// forceRefresh asks the server to skip its response cache for this lookup
+export const fetchSafetyFromBackend = async (dotNumber: string, forceRefresh = false): Promise<{
   rating: string;
   ratingDate: string;
   basicScores: BasicScore[];
   oosRates: OosRate[];
 } | null> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/scrape/safety/${dotNumber}`);
+    const response = await fetch(`${BACKEND_URL}/api/scrape/safety/${dotNumber}${forceRefresh ? '?refresh=true' : ''}`);
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
     }
@@ -33,12 +61,12 @@ export const fetchSafetyFromBackend = async (dotNumber: string): Promise<{
   }
 };
 
-export const fetchInsuranceFromBackend = async (dotNumber: string): Promise<{
+export const fetchInsuranceFromBackend = async (dotNumber: string, forceRefresh = false): Promise<{
   policies: InsurancePolicy[];
   raw: any;
 } | null> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/scrape/insurance/${dotNumber}`);
+    const response = await fetch(`${BACKEND_URL}/api/scrape/insurance/${dotNumber}${forceRefresh ? '?refresh=true' : ''}`);
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
     }
@@ -47,4 +75,196 @@ export const fetchInsuranceFromBackend = async (dotNumber: string): Promise<{
     console.error('Backend insurance fetch error:', error);
     return null;
   }
+};
+
+export const createScrapeJob = async (
+  config: ScraperConfig,
+  maxResults?: number,
+  name?: string
+): Promise<{ success: boolean; job?: ScrapeJob; error?: string }> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape-jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config, maxResults, name, start: true })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return { success: false, error: data.error || `HTTP ${response.status}` };
+    }
+    return { success: true, job: data };
+  } catch (error: any) {
+    console.error('Backend scrape job create error:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+export const controlScrapeJob = async (
+  jobId: string,
+  action: 'start' | 'pause' | 'resume' | 'cancel' | 'retry-failed',
+  maxResults?: number
+): Promise<{ success: boolean; job?: ScrapeJob; error?: string }> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape-jobs/${jobId}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ maxResults })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return { success: false, error: data.error || `HTTP ${response.status}` };
+    }
+    return { success: true, job: data };
+  } catch (error: any) {
+    console.error(`Backend scrape job ${action} error:`, error);
+    return { success: false, error: error.message };
+  }
+};
+
+export const fetchScrapeJob = async (jobId: string): Promise<ScrapeJob | null> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape-jobs/${jobId}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Backend scrape job fetch error:', error);
+    return null;
+  }
+};
+
+export const fetchScrapeJobs = async (limit = 20): Promise<ScrapeJob[]> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape-jobs?limit=${limit}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Backend scrape jobs list error:', error);
+    return [];
+  }
+};
+
+export const fetchScrapeJobResults = async (jobId: string, afterId = 0): Promise<ScrapeJobResult[]> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/scrape-jobs/${jobId}/results?after=${afterId}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Backend scrape job results error:', error);
+    return [];
+  }
+};
+
+/**
+ * Subscribe to a job's Server-Sent Events stream, e.g. `/api/scrape-jobs/<id>/events`.
+ * The browser reconnects on its own and the server replays anything missed.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToJobEvents = (path: string, onEvent: (event: JobEvent) => void): (() => void) => {
+  const source = new EventSource(`${BACKEND_URL}${path}`);
+  source.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.error('Bad job event:', error);
+    }
+  };
+  return () => source.close();
+};
+
+export const startInsuranceJob = async (dotNumbers: string[]): Promise<{ success: boolean; job?: InsuranceJob; error?: string }> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/insurance-jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ dotNumbers })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      return { success: false, job: data.job || undefined, error: data.error || `HTTP ${response.status}` };
+    }
+    return { success: true, job: data };
+  } catch (error: any) {
+    console.error('Backend insurance job start error:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+export const fetchActiveInsuranceJob = async (): Promise<InsuranceJob | null> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/insurance-jobs/active`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Backend insurance job fetch error:', error);
+    return null;
+  }
+};
+
+export const cancelInsuranceJob = async (jobId: string): Promise<InsuranceJob | null> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/insurance-jobs/${jobId}/cancel`, { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Backend insurance job cancel error:', error);
+    return null;
+  }
+};
+
+/**
+ * Fetch an FMCSA / SearchCarriers page through the server's proxy pool.
+ * Returns the body as text, or null when the upstream request failed.
+ */
+export const fetchThroughBackendProxy = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/fetch?url=${encodeURIComponent(url)}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.text();
+  } catch (error) {
+    console.error('Backend proxy fetch error:', error);
+    return null;
+  }
+};
+
+export const fetchProxyStatuses = async (): Promise<ProxyStatus[]> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/proxies`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    return data.proxies || [];
+  } catch (error) {
+    console.error('Backend proxy status error:', error);
+    return [];
+  }
+};
+
+/**
+ * Health-check the proxy pool now, or reload it from env and the proxies table first.
+ */
+export const refreshProxies = async (action: 'health-check' | 'reload'): Promise<ProxyStatus[] | null> => {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/proxies/${action}`, { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const data = await response.json();
+    return data.proxies || [];
+  } catch (error) {
+    console.error(`Backend proxy ${action} error:`, error);
+    return null;
+  }
 };
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { supabase } from './supabaseClient';
+import { FMCSARegisterEntry as RegisterEntry } from '../types';
+import { writeRegisterAlerts } from './registerAlertMatching';
+
+export { ALERT_CATEGORIES } from './registerAlertMatching';
+
+export interface CarrierAlert {
+  id?: string;
+  mc_number: string;
+  dot_number?: string | null;
+  legal_name?: string | null;
+  alert_type: string;
+  register_number: string;
+  register_title: string;
+  decided?: string | null;
+  register_date: string;
+  acknowledged: boolean;
+  acknowledged_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Match saved register entries against the carriers table and write an alert
+ * for every tracked carrier that shows up under a revocation-type section.
+ */
+export const matchRegisterAlerts = async (
+  entries: RegisterEntry[],
+  fetchDate: string
+): Promise<{ success: boolean; error?: string; count?: number }> => {
+  try {
+    const count = await writeRegisterAlerts(supabase, entries, fetchDate);
+    return { success: true, count };
+  } catch (err: any) {
+    console.error('Exception matching register alerts:', err);
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Fetch carrier alerts, newest register date first
+ */
+export const fetchCarrierAlerts = async (filters?: {
+  alertType?: string;
+  includeAcknowledged?: boolean;
+  limit?: number;
+}): Promise<CarrierAlert[]> => {
+  try {
+    let query = supabase
+      .from('carrier_alerts')
+      .select('*');
+
+    if (filters?.alertType && filters.alertType !== 'all') {
+      query = query.eq('alert_type', filters.alertType);
+    }
+    if (!filters?.includeAcknowledged) {
+      query = query.eq('acknowledged', false);
+    }
+
+    const { data, error } = await query
+      .order('register_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(filters?.limit || 500);
+
+    if (error) {
+      console.error('Supabase fetch error:', error);
+      return [];
+    }
+
+    return (data || []) as CarrierAlert[];
+  } catch (err) {
+    console.error('Exception fetching carrier alerts:', err);
+    return [];
+  }
+};
+
+/**
+ * Count alerts nobody has acknowledged yet, for the Sidebar badge
+ */
+export const getUnacknowledgedAlertCount = async (): Promise<number> => {
+  try {
+    const { count, error } = await supabase
+      .from('carrier_alerts')
+      .select('id', { count: 'exact', head: true })
+      .eq('acknowledged', false);
+
+    if (error) {
+      console.error('Supabase count error:', error);
+      return 0;
+    }
+
+    return count || 0;
+  } catch (err) {
+    console.error('Exception counting carrier alerts:', err);
+    return 0;
+  }
+};
+
+/**
+ * Mark alerts as acknowledged. Omit ids to acknowledge every open alert.
+ */
+export const acknowledgeCarrierAlerts = async (ids?: string[]): Promise<{ success: boolean; error?: string }> => {
+  try {
+    let query = supabase
+      .from('carrier_alerts')
+      .update({ acknowledged: true, acknowledged_at: new Date().toISOString() })
+      .eq('acknowledged', false);
+
+    if (ids) {
+      query = query.in('id', ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Supabase update error:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    console.error('Exception acknowledging carrier alerts:', err);
+    return { success: false, error: err.message };
+  }
+};
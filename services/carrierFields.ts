@@ -0,0 +1,216 @@
+// Parsing of SAFER's text fields into the typed carriers columns.
+// Shared by the page and the server, so it must stay free of browser and Node APIs.
+import { InsurancePolicy, OosRate, SafetySummary } from '../types';
+
+/**
+ * Read a count such as "12" or "1,204" as an integer. Returns null for blanks,
+ * "N/A" and anything else without digits.
+ */
+export const parseCount = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const digits = value.replace(/[^\d]/g, '');
+  if (!digits || digits.length > 9) return null;
+  return parseInt(digits, 10);
+};
+
+/**
+ * Read a SAFER date ("MM/DD/YYYY", as on the snapshot and from toLocaleDateString('en-US'))
+ * or an ISO date as YYYY-MM-DD. Returns null when it isn't a real calendar date.
+ */
+export const parseUsDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const text = value.trim();
+
+  let year: number, month: number, day: number;
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+export interface AddressParts {
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+}
+
+/**
+ * Split a SAFER address ("100 MAIN ST, HOUSTON, TX 77002") into its parts. The state is
+ * the two letters after the last comma and the ZIP (or postal code) follows it. Addresses
+ * scraped before street and city were kept apart by a comma ("100 MAIN ST HOUSTON, TX
+ * 77002") get no city. Everything is null when the address doesn't end in "ST ZIP".
+ */
+export const parseAddress = (value: string | null | undefined): AddressParts => {
+  const empty: AddressParts = { street: null, city: null, state: null, zip: null };
+  if (!value) return empty;
+
+  const text = value.replace(/\s+/g, ' ').trim();
+  const match = text.match(/^(.*),\s*([A-Za-z]{2})\s+([A-Za-z0-9][A-Za-z0-9 -]*)$/);
+  if (!match) return empty;
+
+  const head = match[1].trim();
+  const lastComma = head.lastIndexOf(',');
+  return {
+    street: (lastComma >= 0 ? head.slice(0, lastComma) : head).trim() || null,
+    city: lastComma >= 0 ? head.slice(lastComma + 1).trim() || null : null,
+    state: match[2].toUpperCase(),
+    zip: match[3].trim().toUpperCase(),
+  };
+};
+
+/**
+ * Read a percentage such as "5.2%" or "0" as a number. Returns null when there's no number.
+ */
+export const parsePercent = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const match = value.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+// A SAFER summary table as cells keyed by row then column heading,
+// e.g. table['Out of Service %']['Vehicle']
+export type SummaryTable = Record<string, Record<string, string>>;
+
+/**
+ * Build the 24-month safety summary from the snapshot's US "Inspections" and "Crashes"
+ * tables and the "Total Inspections:" figure above them. Returns undefined when the
+ * page has neither table.
+ */
+export const buildSafetySummary = (
+  inspections: SummaryTable,
+  crashes: SummaryTable,
+  totalInspections: string
+): SafetySummary | undefined => {
+  if (Object.keys(inspections).length === 0 && Object.keys(crashes).length === 0) return undefined;
+
+  const oos = inspections['Out of Service %'] || {};
+  const counts = inspections['Inspections'] || {};
+  const crashRow = crashes['Crashes'] || {};
+  // Older snapshots have no total line; a driver inspection often covers the vehicle too, so take the larger
+  const fallbackTotal = Object.keys(counts).length > 0
+    ? Math.max(...Object.values(counts).map(value => parseCount(value) || 0))
+    : null;
+
+  return {
+    inspections: parseCount(totalInspections) ?? fallbackTotal,
+    vehicleOosPct: parsePercent(oos['Vehicle']),
+    driverOosPct: parsePercent(oos['Driver']),
+    hazmatOosPct: parsePercent(oos['Hazmat']),
+    crashes: parseCount(crashRow['Total']),
+    fatalCrashes: parseCount(crashRow['Fatal']),
+    injuryCrashes: parseCount(crashRow['Injury']),
+    towawayCrashes: parseCount(crashRow['Tow']),
+  };
+};
+
+/**
+ * OOS percentage columns from the SMS profile's OOS rates. Only types SMS listed are
+ * returned, so an update doesn't clear what the SAFER snapshot filled in.
+ */
+export const oosPercentColumns = (oosRates: OosRate[] | null | undefined) => {
+  const columns: { vehicle_oos_pct?: number | null; driver_oos_pct?: number | null; hazmat_oos_pct?: number | null } = {};
+  (oosRates || []).forEach(({ type, rate }) => {
+    if (/vehicle/i.test(type)) columns.vehicle_oos_pct = parsePercent(rate);
+    else if (/driver/i.test(type)) columns.driver_oos_pct = parsePercent(rate);
+    else if (/hazmat/i.test(type)) columns.hazmat_oos_pct = parsePercent(rate);
+  });
+  return columns;
+};
+
+/**
+ * Which filing types are on file and the BI&PD limit, from the carrier's insurance
+ * policies. All NULL when insurance was never scraped, so "not on file" only matches
+ * carriers that were checked. The limit is the highest BI&PD coverage listed: an excess
+ * layer's amount is the top of that layer, so it already includes the primary below it.
+ */
+export const insuranceColumns = (policies: InsurancePolicy[] | null | undefined) => {
+  if (!policies) {
+    return { bipd_on_file: null, cargo_on_file: null, bond_on_file: null, bipd_coverage: null };
+  }
+
+  const ofType = (type: string) => policies.filter(p => (p.type || '').toUpperCase() === type);
+  const bipdLimits = ofType('BI&PD')
+    .map(p => parseCount(p.coverageAmount))
+    .filter((amount): amount is number => amount !== null);
+
+  return {
+    bipd_on_file: ofType('BI&PD').length > 0,
+    cargo_on_file: ofType('CARGO').length > 0,
+    bond_on_file: ofType('BOND').length > 0,
+    bipd_coverage: bipdLimits.length > 0 ? Math.max(...bipdLimits) : null,
+  };
+};
+
+/**
+ * Typed columns derived from a carrier's text fields and addresses, safety summary and insurance, for
+ * the carriers table. OOS percentages fall back to the SMS rates when SAFER had none; the insurance
+ * columns are only included when the carrier has insurancePolicies.
+ */
+export const typedCarrierColumns = (carrier: {
+  powerUnits?: string;
+  drivers?: string;
+  mcs150Date?: string;
+  dateScraped?: string;
+  physicalAddress?: string;
+  mailingAddress?: string;
+  oosRates?: OosRate[];
+  safetySummary?: SafetySummary;
+  insurancePolicies?: InsurancePolicy[];
+}) => {
+  const summary = carrier.safetySummary;
+  const sms = oosPercentColumns(carrier.oosRates);
+  const physical = parseAddress(carrier.physicalAddress);
+  const mailing = parseAddress(carrier.mailingAddress);
+
+  return {
+    power_units_count: parseCount(carrier.powerUnits),
+    drivers_count: parseCount(carrier.drivers),
+    mcs150_form_date: parseUsDate(carrier.mcs150Date),
+    scraped_date: parseUsDate(carrier.dateScraped),
+    physical_street: physical.street,
+    physical_city: physical.city,
+    physical_state: physical.state,
+    physical_zip: physical.zip,
+    mailing_street: mailing.street,
+    mailing_city: mailing.city,
+    mailing_state: mailing.state,
+    mailing_zip: mailing.zip,
+    inspections_24mo: summary?.inspections ?? null,
+    vehicle_oos_pct: summary?.vehicleOosPct ?? sms.vehicle_oos_pct ?? null,
+    driver_oos_pct: summary?.driverOosPct ?? sms.driver_oos_pct ?? null,
+    hazmat_oos_pct: summary?.hazmatOosPct ?? sms.hazmat_oos_pct ?? null,
+    crashes_24mo: summary?.crashes ?? null,
+    fatal_crashes_24mo: summary?.fatalCrashes ?? null,
+    injury_crashes_24mo: summary?.injuryCrashes ?? null,
+    towaway_crashes_24mo: summary?.towawayCrashes ?? null,
+    // Left out until insurance is scraped, so saving a SAFER snapshot keeps the stored filings
+    ...(carrier.insurancePolicies ? insuranceColumns(carrier.insurancePolicies) : {}),
+  };
+};
+
+/**
+ * The safety summary stored in a carriers row, or undefined when it was never scraped.
+ */
+export const safetySummaryFromRecord = (record: any): SafetySummary | undefined => {
+  if (record.inspections_24mo == null && record.crashes_24mo == null) return undefined;
+  return {
+    inspections: record.inspections_24mo,
+    vehicleOosPct: record.vehicle_oos_pct,
+    driverOosPct: record.driver_oos_pct,
+    hazmatOosPct: record.hazmat_oos_pct,
+    crashes: record.crashes_24mo,
+    fatalCrashes: record.fatal_crashes_24mo,
+    injuryCrashes: record.injury_crashes_24mo,
+    towawayCrashes: record.towaway_crashes_24mo,
+  };
+};
@@ -0,0 +1,58 @@
+import { supabase } from './supabaseClient';
+
+export interface CarrierFieldChange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface CarrierSnapshot {
+  id: number;
+  carrier_id: string;
+  dot_number: string;
+  mc_number: string | null;
+  change_type: 'created' | 'updated';
+  changes: Record<string, CarrierFieldChange>;
+  snapshot: Record<string, string | null>;
+  recorded_at: string;
+}
+
+// Display names for the columns the carrier_snapshots trigger tracks
+export const SNAPSHOT_FIELD_LABELS: Record<string, string> = {
+  legal_name: 'Legal Name',
+  dba_name: 'DBA Name',
+  entity_type: 'Entity Type',
+  status: 'Operating Status',
+  email: 'Email',
+  phone: 'Phone',
+  power_units: 'Power Units',
+  drivers: 'Drivers',
+  physical_address: 'Physical Address',
+  mailing_address: 'Mailing Address',
+  mcs150_date: 'MCS-150 Date',
+  out_of_service_date: 'Out of Service Date',
+  safety_rating: 'Safety Rating',
+};
+
+/**
+ * Fetch a carrier's change history by USDOT number, newest first
+ */
+export const fetchCarrierSnapshots = async (dotNumber: string, limit = 100): Promise<CarrierSnapshot[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('carrier_snapshots')
+      .select('*')
+      .eq('dot_number', dotNumber)
+      .order('recorded_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Supabase fetch error:', error);
+      return [];
+    }
+
+    return (data || []) as CarrierSnapshot[];
+  } catch (err) {
+    console.error('Exception fetching carrier snapshots:', err);
+    return [];
+  }
+};
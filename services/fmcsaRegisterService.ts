@@ -1,4 +1,6 @@
 import { supabase } from './supabaseClient';
+import { FMCSARegisterEntry as RegisterEntry } from '../types';
+import { matchRegisterAlerts } from './carrierAlertService';
 
 export interface FMCSARegisterEntry {
   id?: string;
@@ -6,6 +8,15 @@ export interface FMCSARegisterEntry {
   title: string;
   decided: string;
   category: string;
+  docket_prefix?: string;
+  docket_number?: string;
+  legal_name?: string;
+  dba_name?: string;
+  city?: string;
+  state?: string;
+  carrier_dot_number?: string | null;
+  enrichment_status?: 'linked' | 'not_found' | 'failed' | null;
+  enriched_at?: string | null;
   date_fetched: string;
   created_at?: string;
   updated_at?: string;
@@ -15,9 +26,9 @@ export interface FMCSARegisterEntry {
  * Save FMCSA Register entries to Supabase.
  */
 export const saveFMCSARegisterEntries = async (
-  entries: FMCSARegisterEntry[],
+  entries: RegisterEntry[],
   fetchDate: string
-): Promise<{ success: boolean; error?: string; count?: number }> => {
+): Promise<{ success: boolean; error?: string; count?: number; alerts?: number }> => {
   try {
     if (!entries || entries.length === 0) {
       return { success: true, count: 0 };
@@ -29,6 +40,12 @@ export const saveFMCSARegisterEntries = async (
       title: entry.title,
       decided: entry.decided,
       category: entry.category,
+      docket_prefix: entry.docketPrefix || null,
+      docket_number: entry.docketNumber || null,
+      legal_name: entry.legalName || null,
+      dba_name: entry.dbaName || null,
+      city: entry.city || null,
+      state: entry.state || null,
       date_fetched: fetchDate,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -44,7 +61,25 @@ export const saveFMCSARegisterEntries = async (
       return { success: false, error: error.message };
     }
 
-    return { success: true, count: records.length };
+    // Mark the day as covered on the register calendar
+    const { error: dayError } = await supabase
+      .from('fmcsa_register_days')
+      .upsert({
+        register_date: fetchDate,
+        status: 'success',
+        entry_count: records.length,
+        error: null,
+        attempted_at: new Date().toISOString(),
+      }, { onConflict: 'register_date' });
+
+    if (dayError) {
+      console.error('Supabase register day save error:', dayError);
+    }
+
+    // Flag tracked carriers that were revoked, dismissed or withdrawn
+    const alertResult = await matchRegisterAlerts(entries, fetchDate);
+
+    return { success: true, count: records.length, alerts: alertResult.count || 0 };
   } catch (err: any) {
     console.error('Exception saving FMCSA entries:', err);
     return { success: false, error: err.message };
@@ -56,6 +91,7 @@ export const saveFMCSARegisterEntries = async (
  */
 export const fetchFMCSARegisterEntries = async (filters?: {
   category?: string;
+  state?: string;
   dateFrom?: string;
   dateTo?: string;
   searchTerm?: string;
@@ -71,6 +107,10 @@ export const fetchFMCSARegisterEntries = async (filters?: {
       query = query.eq('category', filters.category);
     }
 
+    if (filters?.state) {
+      query = query.eq('state', filters.state);
+    }
+
     if (filters?.dateFrom) {
       query = query.gte('date_fetched', filters.dateFrom);
     }
@@ -81,7 +121,7 @@ export const fetchFMCSARegisterEntries = async (filters?: {
 
     if (filters?.searchTerm) {
       const searchPattern = `%${filters.searchTerm}%`;
-      query = query.or(`number.ilike.${searchPattern},title.ilike.${searchPattern}`);
+      query = query.or(`number.ilike.${searchPattern},title.ilike.${searchPattern},legal_name.ilike.${searchPattern}`);
     }
 
     // Order by date and number
@@ -108,6 +148,52 @@ export const fetchFMCSARegisterEntries = async (filters?: {
   }
 };
 
+/**
+ * Convert a database row to the register entry shape used by the UI
+ */
+export const registerRowToEntry = (row: FMCSARegisterEntry): RegisterEntry => ({
+  number: row.number,
+  title: row.title,
+  decided: row.decided,
+  category: row.category,
+  docketPrefix: row.docket_prefix || '',
+  docketNumber: row.docket_number || '',
+  legalName: row.legal_name || '',
+  dbaName: row.dba_name || '',
+  city: row.city || '',
+  state: row.state || '',
+  carrierDotNumber: row.carrier_dot_number || ''
+});
+
+/**
+ * Find stored carriers for a set of MC docket numbers. Returns MC number → USDOT number.
+ */
+export const fetchCarrierLinks = async (mcNumbers: string[]): Promise<Record<string, string>> => {
+  const links: Record<string, string> = {};
+  const unique = Array.from(new Set(mcNumbers.filter(Boolean)));
+
+  try {
+    // Keep the IN list short enough for the request URL
+    for (let i = 0; i < unique.length; i += 200) {
+      const { data, error } = await supabase
+        .from('carriers')
+        .select('mc_number, dot_number')
+        .in('mc_number', unique.slice(i, i + 200));
+
+      if (error) {
+        console.error('Supabase fetch error:', error);
+        return links;
+      }
+
+      (data || []).forEach((row: any) => { links[row.mc_number] = row.dot_number; });
+    }
+  } catch (err) {
+    console.error('Exception fetching carrier links:', err);
+  }
+
+  return links;
+};
+
 /**
  * Get entries for a specific date
  */
@@ -131,6 +217,38 @@ export const getFMCSAEntriesByDate = async (date: string): Promise<FMCSARegister
   }
 };
 
+export interface FMCSARegisterDay {
+  register_date: string;
+  status: 'success' | 'failed' | 'empty';
+  entry_count: number;
+  error?: string | null;
+  attempted_at?: string;
+}
+
+/**
+ * Get per-day fetch status for the register coverage calendar
+ */
+export const fetchRegisterDayStatus = async (dateFrom: string, dateTo: string): Promise<FMCSARegisterDay[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('fmcsa_register_days')
+      .select('*')
+      .gte('register_date', dateFrom)
+      .lte('register_date', dateTo)
+      .order('register_date', { ascending: true });
+
+    if (error) {
+      console.error('Supabase fetch error:', error);
+      return [];
+    }
+
+    return (data || []) as FMCSARegisterDay[];
+  } catch (err) {
+    console.error('Exception fetching register days:', err);
+    return [];
+  }
+};
+
 /**
  * Get unique categories
  */
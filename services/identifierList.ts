@@ -0,0 +1,110 @@
+// Parsing for uploaded MC / USDOT lists (CSV or TXT) used by the Live Scraper.
+// Shared by the page and the server, so it must stay free of browser and Node APIs.
+//
+// A scrape target is a bare number for an MC/MX docket ("123456") or a
+// DOT-prefixed number for a USDOT number ("DOT123456").
+
+export type IdentifierKind = 'MC' | 'DOT';
+
+export interface IdentifierTarget {
+  kind: IdentifierKind;
+  number: string;
+}
+
+export interface ParsedIdentifierList {
+  targets: string[];     // deduped scrape targets in file order
+  invalid: string[];     // cells that are not an MC or USDOT number
+  duplicates: number;
+}
+
+const MC_PATTERN = /^(?:MC|MX|FF)?\s*[-#:]?\s*(\d{1,8})$/;
+const DOT_PATTERN = /^(?:US\s*)?DOT\s*[-#:]?\s*(\d{1,8})$/;
+
+const stripZeros = (digits: string) => digits.replace(/^0+(?=\d)/, '');
+
+/**
+ * Turn one identifier such as "MC-123456", "USDOT 98765" or "123456" into a scrape
+ * target. Bare numbers are read as `defaultKind`. Returns null when it isn't one.
+ */
+export const normalizeIdentifier = (raw: string, defaultKind: IdentifierKind = 'MC'): string | null => {
+  const value = raw.trim().replace(/^["']|["']$/g, '').trim().toUpperCase();
+  if (!value) return null;
+
+  const dot = value.match(DOT_PATTERN);
+  if (dot) return `DOT${stripZeros(dot[1])}`;
+
+  const mc = value.match(MC_PATTERN);
+  if (!mc) return null;
+  const isBare = /^\d+$/.test(value);
+  return isBare && defaultKind === 'DOT' ? `DOT${stripZeros(mc[1])}` : stripZeros(mc[1]);
+};
+
+/**
+ * Split a scrape target back into its kind and number.
+ */
+export const parseTarget = (target: string): IdentifierTarget | null => {
+  const normalized = normalizeIdentifier(target);
+  if (!normalized) return null;
+  return normalized.startsWith('DOT')
+    ? { kind: 'DOT', number: normalized.slice(3) }
+    : { kind: 'MC', number: normalized };
+};
+
+/**
+ * Display label for a scrape target, e.g. "MC 123456" or "USDOT 98765".
+ */
+export const formatTarget = (target: string): string => {
+  const parsed = parseTarget(target);
+  if (!parsed) return target;
+  return parsed.kind === 'DOT' ? `USDOT ${parsed.number}` : `MC ${parsed.number}`;
+};
+
+// Column kind from a CSV header cell, or null for columns to ignore
+const headerKind = (cell: string): IdentifierKind | null => {
+  const name = cell.trim().replace(/^["']|["']$/g, '').toUpperCase();
+  if (name.includes('DOT')) return 'DOT';
+  if (/\b(MC|MX|DOCKET)/.test(name)) return 'MC';
+  return null;
+};
+
+/**
+ * Read identifiers from CSV or TXT content. Cells may be split by commas, semicolons,
+ * tabs, pipes or newlines. When the first row is a header, only its MC/DOT columns are
+ * read and bare numbers take that column's kind; otherwise bare numbers are MC numbers.
+ */
+export const parseIdentifierList = (text: string): ParsedIdentifierList => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.split(/[,;\t|]/))
+    .filter(cells => cells.some(cell => cell.trim()));
+
+  let columnKinds: (IdentifierKind | null)[] | null = null;
+  const first = rows[0];
+  if (first && first.every(cell => !/\d/.test(cell))) {
+    const kinds = first.map(headerKind);
+    rows.shift();
+    if (kinds.some(Boolean)) columnKinds = kinds;
+  }
+
+  const seen = new Set<string>();
+  const result: ParsedIdentifierList = { targets: [], invalid: [], duplicates: 0 };
+
+  rows.forEach(cells => {
+    cells.forEach((cell, index) => {
+      if (!cell.trim()) return;
+      if (columnKinds && !columnKinds[index]) return;
+
+      const target = normalizeIdentifier(cell, columnKinds?.[index] || 'MC');
+      if (!target) {
+        result.invalid.push(cell.trim());
+      } else if (seen.has(target)) {
+        result.duplicates++;
+      } else {
+        seen.add(target);
+        result.targets.push(target);
+      }
+    });
+  });
+
+  return result;
+};
@@ -1,5 +1,6 @@
 import { CarrierData, User, InsurancePolicy, BasicScore, OosRate, BlockedIP } from '../types';
-import { fetchCarrierFromBackend, fetchSafetyFromBackend, fetchInsuranceFromBackend } from './backendService';
+import { fetchCarrierFromBackend, fetchCarrierByDotFromBackend, fetchSafetyFromBackend, fetchInsuranceFromBackend, fetchThroughBackendProxy } from './backendService';
+import { buildSafetySummary, SummaryTable } from './carrierFields';
 
 // === HELPER FUNCTIONS ===
 const cleanText = (text: string | null | undefined): string => {
@@ -42,6 +43,17 @@ const findValueByLabel = (doc: Document, label: string): string => {
   return '';
 };
 
+// Address cells put the street and "CITY, ST ZIP" on separate lines; keep them apart with a comma
+const findAddressByLabel = (doc: Document, label: string): string => {
+  const th = Array.from(doc.querySelectorAll('th')).find(el => cleanText(el.textContent).includes(label));
+  const td = th?.nextElementSibling;
+  if (!td) return '';
+
+  const cell = td.cloneNode(true) as Element;
+  cell.querySelectorAll('br').forEach(br => br.replaceWith(', '));
+  return cleanText(cell.textContent).replace(/\s+,/g, ',').replace(/^[,\s]+|[,\s]+$/g, '');
+};
+
 // === NETWORK LAYER (FALLBACK) ===
 
 const fetchUrl = async (targetUrl: string, useProxy: boolean): Promise<string | any | null> => {
@@ -52,40 +64,32 @@ const fetchUrl = async (targetUrl: string, useProxy: boolean): Promise<string |
         const contentType = response.headers.get("content-type");
         return contentType?.includes("application/json") ? await response.json() : await response.text();
       }
-    } catch (error) { return null; }
+    } catch (error) {
+      console.warn(`Direct fetch failed for ${targetUrl}:`, error);
+      return null;
+    }
   }
 
-  const proxyGenerators = [
-    (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-    (url: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`
-  ];
-
-  for (const generateProxyUrl of proxyGenerators) {
-    try {
-      const response = await fetch(generateProxyUrl(targetUrl));
-      if (response.ok) {
-        const text = await response.text();
-        try {
-          return JSON.parse(text);
-        } catch {
-          return text;
-        }
-      }
-    } catch (error) {}
+  // Proxied requests go through the server's proxy pool
+  const text = await fetchThroughBackendProxy(targetUrl);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
   }
-  return null;
 };
 
 // === SCRAPER LOGIC (NOW USES BACKEND) ===
 
-export const fetchSafetyData = async (dot: string): Promise<{ 
+export const fetchSafetyData = async (dot: string, forceRefresh = false): Promise<{ 
   rating: string, 
   ratingDate: string, 
   basicScores: BasicScore[], 
   oosRates: OosRate[] 
 }> => {
   // Try backend first
-  const backendResult = await fetchSafetyFromBackend(dot);
+  const backendResult = await fetchSafetyFromBackend(dot, forceRefresh);
   if (backendResult) {
     return backendResult;
   }
@@ -165,15 +169,22 @@ const fetchCarrierEmailFromSMS = async (dotNumber: string, useProxy: boolean): P
   return '';
 };
 
-export const scrapeRealCarrier = async (mcNumber: string, useProxy: boolean): Promise<CarrierData | null> => {
+// Look up a carrier by MC/MX number, or by USDOT number with queryParam 'USDOT'
+export const scrapeRealCarrier = async (
+  number: string,
+  useProxy: boolean,
+  queryParam: 'MC_MX' | 'USDOT' = 'MC_MX'
+): Promise<CarrierData | null> => {
   // Try backend first
-  const backendResult = await fetchCarrierFromBackend(mcNumber);
+  const backendResult = queryParam === 'USDOT'
+    ? await fetchCarrierByDotFromBackend(number)
+    : await fetchCarrierFromBackend(number);
   if (backendResult) {
     return backendResult;
   }
 
   // Fallback to old proxy method
-  const url = `https://safer.fmcsa.dot.gov/query.asp?searchtype=ANY&query_type=queryCarrierSnapshot&query_param=MC_MX&query_string=${mcNumber}`;
+  const url = `https://safer.fmcsa.dot.gov/query.asp?searchtype=ANY&query_type=queryCarrierSnapshot&query_param=${queryParam}&query_string=${number}`;
   const html = await fetchUrl(url, useProxy);
   if (typeof html !== 'string') return null;
 
@@ -196,8 +207,31 @@ export const scrapeRealCarrier = async (mcNumber: string, useProxy: boolean): Pr
     return res;
   };
 
+  // First table with this summary (US; Canada's follows) by row and column heading
+  const readSummaryTable = (summary: string) => {
+    const table = doc.querySelector(`table[summary="${summary}"]`);
+    const result: SummaryTable = {};
+    if (!table) return result;
+
+    const rows = Array.from(table.querySelectorAll('tr'));
+    const headings = Array.from(rows[0]?.querySelectorAll('th, td') || []).map(cell => cleanText(cell.textContent));
+    rows.slice(1).forEach(row => {
+      const cells = Array.from(row.querySelectorAll('th, td'));
+      const label = cleanText(cells[0]?.textContent);
+      if (!label) return;
+      result[label] = {};
+      cells.slice(1).forEach((cell, i) => {
+        if (headings[i + 1]) result[label][headings[i + 1]] = cleanText(cell.textContent);
+      });
+    });
+    return result;
+  };
+
+  // A USDOT lookup learns the MC number from the snapshot's docket list
+  const docket = getVal('MC/MX/FF Number(s):').match(/(?:MC|MX)-?\s*(\d+)/i);
+
   const carrier: CarrierData = {
-    mcNumber,
+    mcNumber: queryParam === 'MC_MX' ? number : docket ? docket[1] : '',
     dotNumber: getVal('USDOT Number:'),
     legalName: getVal('Legal Name:'),
     dbaName: getVal('DBA Name:'),
@@ -207,8 +241,8 @@ export const scrapeRealCarrier = async (mcNumber: string, useProxy: boolean): Pr
     phone: getVal('Phone:'),
     powerUnits: getVal('Power Units:'),
     drivers: getVal('Drivers:'),
-    physicalAddress: getVal('Physical Address:'),
-    mailingAddress: getVal('Mailing Address:'),
+    physicalAddress: findAddressByLabel(doc, 'Physical Address:'),
+    mailingAddress: findAddressByLabel(doc, 'Mailing Address:'),
     dateScraped: new Date().toLocaleDateString('en-US'),
     mcs150Date: getVal('MCS-150 Form Date:'),
     mcs150Mileage: getVal('MCS-150 Mileage (Year):'),
@@ -217,7 +251,12 @@ export const scrapeRealCarrier = async (mcNumber: string, useProxy: boolean): Pr
     cargoCarried: findMarked("Cargo Carried"),
     outOfServiceDate: getVal('Out of Service Date:'),
     stateCarrierId: getVal('State Carrier ID Number:'),
-    dunsNumber: getVal('DUNS Number:')
+    dunsNumber: getVal('DUNS Number:'),
+    safetySummary: buildSafetySummary(
+      readSummaryTable('Inspections'),
+      readSummaryTable('Crashes'),
+      cleanText(doc.body?.textContent).match(/Total Inspections:\s*([\d,]+)/)?.[1] || ''
+    )
   };
 
   if (carrier.dotNumber) {
@@ -227,9 +266,9 @@ export const scrapeRealCarrier = async (mcNumber: string, useProxy: boolean): Pr
   return carrier;
 };
 
-export const fetchInsuranceData = async (dot: string): Promise<{policies: InsurancePolicy[], raw: any}> => {
+export const fetchInsuranceData = async (dot: string, forceRefresh = false): Promise<{policies: InsurancePolicy[], raw: any}> => {
   // Try backend first
-  const backendResult = await fetchInsuranceFromBackend(dot);
+  const backendResult = await fetchInsuranceFromBackend(dot, forceRefresh);
   if (backendResult) {
     return backendResult;
   }
@@ -307,27 +346,3 @@ export const MOCK_USERS: User[] = [
 ];
 
 export const BLOCKED_IPS: BlockedIP[] = [];
-
-export const generateMockCarrier = (mc: string, b: boolean): CarrierData => ({
-  mcNumber: mc,
-  dotNumber: (parseInt(mc)+1000000).toString(),
-  legalName: `Carrier ${mc} Logistics`,
-  dbaName: '',
-  entityType: b ? 'BROKER' : 'CARRIER',
-  status: 'AUTHORIZED',
-  email: 'info@carrier.com',
-  phone: '800-555-0199',
-  powerUnits: '12',
-  drivers: '14',
-  physicalAddress: '100 Logistics Way, Houston, TX 77002',
-  mailingAddress: '',
-  dateScraped: '2024-01-01',
-  mcs150Date: '2024-01-01',
-  mcs150Mileage: '120,000 (2023)',
-  operationClassification: [],
-  carrierOperation: [],
-  cargoCarried: [],
-  outOfServiceDate: '',
-  stateCarrierId: '',
-  dunsNumber: ''
-});
@@ -0,0 +1,83 @@
+// Matching of register entries against tracked carriers, for carrier_alerts.
+// Shared by the page and the server, so it must stay free of browser and Node APIs;
+// each side passes in its own Supabase client.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FMCSARegisterEntry } from '../types';
+
+// Register sections that mean a carrier is losing or never got its authority
+export const ALERT_CATEGORIES = ['REVOCATION', 'DISMISSAL', 'WITHDRAWAL'];
+
+// Keep the IN list short enough for the request URL
+const LOOKUP_CHUNK_SIZE = 200;
+
+export interface TrackedCarrier {
+  dot_number: string;
+  legal_name: string;
+}
+
+/**
+ * Register entries under a revocation-type section with an MC docket.
+ */
+export const alertCandidates = (entries: FMCSARegisterEntry[]): FMCSARegisterEntry[] =>
+  entries.filter(e => ALERT_CATEGORIES.includes(e.category) && e.docketPrefix === 'MC' && e.docketNumber);
+
+/**
+ * carrier_alerts rows for the candidates whose MC number is in `carriers`.
+ */
+export const buildAlertRecords = (
+  candidates: FMCSARegisterEntry[],
+  carriers: Map<string, TrackedCarrier>,
+  fetchDate: string
+) =>
+  candidates
+    .filter(e => carriers.has(e.docketNumber as string))
+    .map(e => {
+      const carrier = carriers.get(e.docketNumber as string)!;
+      return {
+        mc_number: e.docketNumber,
+        dot_number: carrier.dot_number || null,
+        legal_name: carrier.legal_name || e.legalName || null,
+        alert_type: e.category,
+        register_number: e.number,
+        register_title: e.title,
+        decided: e.decided || null,
+        register_date: fetchDate,
+      };
+    });
+
+/**
+ * Write a carrier_alerts row for every tracked carrier that appears under a
+ * revocation-type section. Returns how many new alerts were inserted; throws on database errors.
+ */
+export const writeRegisterAlerts = async (
+  supabase: SupabaseClient,
+  entries: FMCSARegisterEntry[],
+  fetchDate: string
+): Promise<number> => {
+  const candidates = alertCandidates(entries);
+  if (candidates.length === 0) return 0;
+
+  const mcNumbers = Array.from(new Set(candidates.map(e => e.docketNumber as string)));
+  const carriers = new Map<string, TrackedCarrier>();
+
+  for (let i = 0; i < mcNumbers.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('carriers')
+      .select('mc_number, dot_number, legal_name')
+      .in('mc_number', mcNumbers.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+    (data || []).forEach((row: any) => carriers.set(row.mc_number, row));
+  }
+
+  const records = buildAlertRecords(candidates, carriers, fetchDate);
+  if (records.length === 0) return 0;
+
+  // Re-running a day must not reset acknowledged alerts; only inserted rows come back
+  const { data, error } = await supabase
+    .from('carrier_alerts')
+    .upsert(records, { onConflict: 'register_number,register_date', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw new Error(error.message);
+
+  return data?.length ?? 0;
+};
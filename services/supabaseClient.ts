@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { safetySummaryFromRecord, typedCarrierColumns } from './carrierFields';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -12,7 +13,7 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 // Database types
 export interface CarrierRecord {
   id?: string;
-  mc_number: string;
+  mc_number: string | null;   // null for intrastate / DOT-only carriers
   dot_number: string;
   legal_name: string;
   dba_name?: string;
@@ -22,11 +23,24 @@ export interface CarrierRecord {
   phone?: string;
   power_units?: string;
   drivers?: string;
+  power_units_count?: number | null;
+  drivers_count?: number | null;
   non_cmv_units?: string;
   physical_address?: string;
   mailing_address?: string;
+  // Parsed from the addresses on save (parseAddress)
+  physical_street?: string | null;
+  physical_city?: string | null;
+  physical_state?: string | null;
+  physical_zip?: string | null;
+  mailing_street?: string | null;
+  mailing_city?: string | null;
+  mailing_state?: string | null;
+  mailing_zip?: string | null;
   date_scraped: string;
+  scraped_date?: string | null;       // date_scraped as a DATE
   mcs150_date?: string;
+  mcs150_form_date?: string | null;   // mcs150_date as a DATE
   mcs150_mileage?: string;
   operation_classification?: string[];
   carrier_operation?: string[];
@@ -38,15 +52,42 @@ export interface CarrierRecord {
   safety_rating_date?: string;
   basic_scores?: any;
   oos_rates?: any;
+  // SAFER 24-month US totals and OOS percentages, for the safety filters
+  inspections_24mo?: number | null;
+  vehicle_oos_pct?: number | null;
+  driver_oos_pct?: number | null;
+  hazmat_oos_pct?: number | null;
+  crashes_24mo?: number | null;
+  fatal_crashes_24mo?: number | null;
+  injury_crashes_24mo?: number | null;
+  towaway_crashes_24mo?: number | null;
   insurance_policies?: any;
+  // Derived from insurance_policies, for the insurance filters; NULL until insurance is scraped
+  bipd_on_file?: boolean | null;
+  cargo_on_file?: boolean | null;
+  bond_on_file?: boolean | null;
+  bipd_coverage?: number | null;
+  // From the L&I carrier detail page; NULL when it wasn't looked up
+  boc3_on_file?: boolean | null;
+  boc3_agent?: string | null;
+  company_reps?: string[] | null;
+  watchlisted?: boolean;
+  last_viewed_at?: string | null;
+  last_verified_at?: string | null;
+  verification_status?: string | null;
+  verification_error?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
 export const saveCarrierToSupabase = async (carrier: any): Promise<{ success: boolean; error?: string }> => {
+  if (!carrier.dotNumber) {
+    return { success: false, error: 'Carrier has no USDOT number' };
+  }
+
   try {
     const record: CarrierRecord = {
-      mc_number: carrier.mcNumber,
+      mc_number: carrier.mcNumber || null,
       dot_number: carrier.dotNumber,
       legal_name: carrier.legalName,
       dba_name: carrier.dbaName || null,
@@ -68,16 +109,21 @@ export const saveCarrierToSupabase = async (carrier: any): Promise<{ success: bo
       out_of_service_date: carrier.outOfServiceDate || null,
       state_carrier_id: carrier.stateCarrierId || null,
       duns_number: carrier.dunsNumber || null,
-      safety_rating: carrier.safetyRating || null,
-      safety_rating_date: carrier.safetyRatingDate || null,
-      basic_scores: carrier.basicScores || null,
-      oos_rates: carrier.oosRates || null,
-      insurance_policies: carrier.insurancePolicies || null,
+      ...(carrier.safetyRating !== undefined ? { safety_rating: carrier.safetyRating || null } : {}),
+      ...(carrier.safetyRatingDate !== undefined ? { safety_rating_date: carrier.safetyRatingDate || null } : {}),
+      ...(carrier.basicScores !== undefined ? { basic_scores: carrier.basicScores } : {}),
+      ...(carrier.oosRates !== undefined ? { oos_rates: carrier.oosRates } : {}),
+      ...(carrier.insurancePolicies ? { insurance_policies: carrier.insurancePolicies } : {}),
+      ...(carrier.boc3OnFile !== undefined ? { boc3_on_file: carrier.boc3OnFile } : {}),
+      ...(carrier.boc3Agent !== undefined ? { boc3_agent: carrier.boc3Agent || null } : {}),
+      ...(carrier.companyReps !== undefined ? { company_reps: carrier.companyReps } : {}),
+      last_verified_at: new Date().toISOString(),
+      ...typedCarrierColumns(carrier),
     };
 
     const { error } = await supabase
       .from('carriers')
-      .upsert(record, { onConflict: 'mc_number' });
+      .upsert(record, { onConflict: 'dot_number' });
 
     if (error) {
       console.error('Supabase save error:', error);
@@ -97,10 +143,12 @@ export interface CarrierFilters {
   dotNumber?: string;
   legalName?: string;
   active?: string;           // 'true' | 'false' | ''
-  state?: string;
+  state?: string;            // two-letter codes joined with '|'
+  city?: string;
+  zip?: string;              // ZIP prefix, e.g. '770'
   hasEmail?: string;         // 'true' | 'false' | ''
-  hasBoc3?: string;          // 'true' | 'false' | ''
-  hasCompanyRep?: string;    // 'true' | 'false' | ''
+  hasBoc3?: string;          // 'true' | 'false' | ''; 'false' only matches carriers L&I was checked for
+  hasCompanyRep?: string;    // 'true' | 'false' | ''; same
   yearsInBusinessMin?: number;
   yearsInBusinessMax?: number;
   // Carrier Operation
@@ -114,12 +162,12 @@ export interface CarrierFilters {
   cargo?: string[];
   // Insurance Policy
   insuranceRequired?: string[];
-  bipdMin?: number;
+  bipdMin?: number;          // dollars, against the highest BI&PD limit on file
   bipdMax?: number;
   bipdOnFile?: string;       // '1' | '0' | ''
   cargoOnFile?: string;      // '1' | '0' | ''
   bondOnFile?: string;       // '1' | '0' | ''
-  // Safety
+  // Safety (24-month US totals from SAFER; OOS is the worst of the vehicle/driver/hazmat %)
   oosMin?: number;
   oosMax?: number;
   crashesMin?: number;
@@ -132,23 +180,47 @@ export interface CarrierFilters {
   towawayMax?: number;
   inspectionsMin?: number;
   inspectionsMax?: number;
-  // Pagination
+  // Pagination & sorting
   limit?: number;
+  offset?: number;
+  sortBy?: CarrierSortColumn;
+  sortDir?: 'asc' | 'desc';
+}
+
+// Columns the Carrier Database can be sorted by
+export type CarrierSortColumn = 'created_at' | 'legal_name' | 'power_units_count' | 'mcs150_form_date' | 'safety_rating';
+
+export const DEFAULT_CARRIER_PAGE_SIZE = 100;
+// PostgREST returns at most 1000 rows per request
+const MAX_CARRIER_PAGE_SIZE = 1000;
+
+// Filing type → column saying whether the carrier has one on file
+const INSURANCE_ON_FILE_COLUMNS: Record<string, string> = {
+  'BI&PD': 'bipd_on_file',
+  'CARGO': 'cargo_on_file',
+  'BOND': 'bond_on_file',
+};
+
+export interface CarrierPage {
+  carriers: any[];
+  total: number;
 }
 
-export const fetchCarriersFromSupabase = async (filters: CarrierFilters = {}): Promise<any[]> => {
+// Today's date `years` years ago, as YYYY-MM-DD
+const yearsAgo = (years: number): string => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Fetch one page of carriers matching the filters, with the exact number of matches.
+ */
+export const fetchCarrierPage = async (filters: CarrierFilters = {}): Promise<CarrierPage> => {
   try {
     let query = supabase
       .from('carriers')
-      .select('*');
-
-    const isFiltered = Object.keys(filters).some(k => {
-      const key = k as keyof CarrierFilters;
-      const val = filters[key];
-      if (key === 'limit') return false;
-      if (Array.isArray(val)) return val.length > 0;
-      return val !== undefined && val !== '';
-    });
+      .select('*', { count: 'exact' });
 
     // ── Motor Carrier filters ──────────────────────────────────────────────
     if (filters.mcNumber) {
@@ -166,11 +238,13 @@ export const fetchCarriersFromSupabase = async (filters: CarrierFilters = {}): P
       query = query.or('status.ilike.%NOT AUTHORIZED%,status.not.ilike.%AUTHORIZED%');
     }
     if (filters.state) {
-      // Correct syntax for OR with ILIKE in PostgREST when using special characters like commas:
-      // We must wrap the pattern in double quotes.
-      const states = filters.state.split('|');
-      const stateOrConditions = states.map(s => `physical_address.ilike."%, ${s}%"`).join(',');
-      query = query.or(stateOrConditions);
+      query = query.in('physical_state', filters.state.split('|'));
+    }
+    if (filters.city) {
+      query = query.ilike('physical_city', `%${filters.city}%`);
+    }
+    if (filters.zip) {
+      query = query.like('physical_zip', `${filters.zip.toUpperCase()}%`);
     }
     if (filters.hasEmail === 'true') {
       query = query.not('email', 'is', null).neq('email', '');
@@ -178,9 +252,21 @@ export const fetchCarriersFromSupabase = async (filters: CarrierFilters = {}): P
       query = query.or('email.is.null,email.eq.');
     }
     if (filters.hasBoc3 === 'true') {
-      query = query.contains('carrier_operation', ['BOC-3']);
+      query = query.eq('boc3_on_file', true);
     } else if (filters.hasBoc3 === 'false') {
-      query = query.not('carrier_operation', 'cs', '{"BOC-3"}');
+      query = query.eq('boc3_on_file', false);
+    }
+    if (filters.hasCompanyRep === 'true') {
+      query = query.not('company_reps', 'is', null).neq('company_reps', '{}');
+    } else if (filters.hasCompanyRep === 'false') {
+      query = query.eq('company_reps', '{}');
+    }
+    // Years in business counts whole years since the MCS-150 form date
+    if (filters.yearsInBusinessMin !== undefined) {
+      query = query.lte('mcs150_form_date', yearsAgo(filters.yearsInBusinessMin));
+    }
+    if (filters.yearsInBusinessMax !== undefined) {
+      query = query.gt('mcs150_form_date', yearsAgo(filters.yearsInBusinessMax + 1));
     }
 
     // ── Carrier Operation filters ──────────────────────────────────────────
@@ -199,52 +285,77 @@ export const fetchCarriersFromSupabase = async (filters: CarrierFilters = {}): P
       query = query.not('cargo_carried', 'cs', '{"Hazardous Materials"}');
     }
     if (filters.powerUnitsMin !== undefined) {
-      query = query.gte('power_units', filters.powerUnitsMin.toString());
+      query = query.gte('power_units_count', filters.powerUnitsMin);
     }
     if (filters.powerUnitsMax !== undefined) {
-      query = query.lte('power_units', filters.powerUnitsMax.toString());
+      query = query.lte('power_units_count', filters.powerUnitsMax);
     }
     if (filters.driversMin !== undefined) {
-      query = query.gte('drivers', filters.driversMin.toString());
+      query = query.gte('drivers_count', filters.driversMin);
     }
     if (filters.driversMax !== undefined) {
-      query = query.lte('drivers', filters.driversMax.toString());
+      query = query.lte('drivers_count', filters.driversMax);
     }
 
     // ── Insurance filters ──────────────────────────────────────────────────
     if (filters.insuranceRequired && filters.insuranceRequired.length > 0) {
-      // Filter by insurance type in the insurance_policies JSONB array
-      const insuranceOrConditions = filters.insuranceRequired.map(type => `insurance_policies.cs.[{"type": "${type}"}]`).join(',');
-      query = query.or(insuranceOrConditions);
-    }
-    if (filters.bipdOnFile === '1') {
-      query = query.not('insurance_policies', 'is', null);
+      // Any of the selected filing types on file
+      const insuranceOrConditions = filters.insuranceRequired
+        .filter(type => INSURANCE_ON_FILE_COLUMNS[type])
+        .map(type => `${INSURANCE_ON_FILE_COLUMNS[type]}.is.true`)
+        .join(',');
+      if (insuranceOrConditions) query = query.or(insuranceOrConditions);
     }
-    if (filters.cargoOnFile === '1') {
-      query = query.not('insurance_policies', 'is', null);
+    if (filters.bipdMin !== undefined) {
+      query = query.gte('bipd_coverage', filters.bipdMin);
     }
-    if (filters.bondOnFile === '1') {
-      query = query.not('insurance_policies', 'is', null);
+    if (filters.bipdMax !== undefined) {
+      query = query.lte('bipd_coverage', filters.bipdMax);
     }
+    // '0' only matches carriers whose insurance was checked and lacks that filing type
+    const onFileFilters: [string, string | undefined][] = [
+      ['bipd_on_file', filters.bipdOnFile],
+      ['cargo_on_file', filters.cargoOnFile],
+      ['bond_on_file', filters.bondOnFile],
+    ];
+    onFileFilters.forEach(([column, value]) => {
+      if (value === '1') query = query.eq(column, true);
+      else if (value === '0') query = query.eq(column, false);
+    });
 
-    // ── Ordering & limit ──────────────────────────────────────────────────
-    query = query.order('created_at', { ascending: false });
+    // ── Safety filters ─────────────────────────────────────────────────────
+    const safetyRanges: [string, number | undefined, number | undefined][] = [
+      ['max_oos_pct', filters.oosMin, filters.oosMax],
+      ['crashes_24mo', filters.crashesMin, filters.crashesMax],
+      ['injury_crashes_24mo', filters.injuriesMin, filters.injuriesMax],
+      ['fatal_crashes_24mo', filters.fatalitiesMin, filters.fatalitiesMax],
+      ['towaway_crashes_24mo', filters.towawayMin, filters.towawayMax],
+      ['inspections_24mo', filters.inspectionsMin, filters.inspectionsMax],
+    ];
+    safetyRanges.forEach(([column, min, max]) => {
+      if (min !== undefined) query = query.gte(column, min);
+      if (max !== undefined) query = query.lte(column, max);
+    });
 
-    if (!isFiltered) {
-      query = query.limit(200);
-    } else if (filters.limit) {
-      query = query.limit(filters.limit);
-    }
+    // ── Ordering & pagination ─────────────────────────────────────────────
+    const ascending = filters.sortDir === 'asc';
+    query = query
+      .order(filters.sortBy || 'created_at', { ascending, nullsFirst: false })
+      .order('id', { ascending: true });
+
+    const limit = Math.min(filters.limit || DEFAULT_CARRIER_PAGE_SIZE, MAX_CARRIER_PAGE_SIZE);
+    const offset = filters.offset || 0;
+    query = query.range(offset, offset + limit - 1);
 
-    const { data, error } = await query;
+    const { data, error, count } = await query;
 
     if (error) {
       console.error('Supabase fetch error:', error);
-      return [];
+      return { carriers: [], total: 0 };
     }
 
-    let results = (data || []).map((record: any) => ({
-      mcNumber: record.mc_number,
+    const results = (data || []).map((record: any) => ({
+      mcNumber: record.mc_number || '',
       dotNumber: record.dot_number,
       legalName: record.legal_name,
       dbaName: record.dba_name,
@@ -270,79 +381,68 @@ export const fetchCarriersFromSupabase = async (filters: CarrierFilters = {}): P
       safetyRatingDate: record.safety_rating_date,
       basicScores: record.basic_scores,
       oosRates: record.oos_rates,
+      safetySummary: safetySummaryFromRecord(record),
+      boc3OnFile: record.boc3_on_file,
+      boc3Agent: record.boc3_agent || '',
+      companyReps: record.company_reps,
       insurancePolicies: record.insurance_policies,
+      watchlisted: record.watchlisted || false,
+      lastVerifiedAt: record.last_verified_at,
+      verificationStatus: record.verification_status,
     }));
 
-    // Post-fetch filtering for Years in Business (since mcs150_date is a string in various formats)
-    if (filters.yearsInBusinessMin !== undefined || filters.yearsInBusinessMax !== undefined) {
-      results = results.filter(carrier => {
-        if (!carrier.mcs150Date || carrier.mcs150Date === 'N/A') return false;
-        try {
-          const date = new Date(carrier.mcs150Date);
-          if (isNaN(date.getTime())) return false;
-          const diffMs = Date.now() - date.getTime();
-          const ageDate = new Date(diffMs);
-          const years = Math.abs(ageDate.getUTCFullYear() - 1970);
-          
-          if (filters.yearsInBusinessMin !== undefined && years < filters.yearsInBusinessMin) return false;
-          if (filters.yearsInBusinessMax !== undefined && years > filters.yearsInBusinessMax) return false;
-          return true;
-        } catch (e) {
-          return false;
-        }
-      });
-    }
-
-    return results;
+    return { carriers: results, total: count ?? results.length };
   } catch (err) {
     console.error('Exception fetching from Supabase:', err);
-    return [];
+    return { carriers: [], total: 0 };
   }
 };
 
-export const updateCarrierInsurance = async (dotNumber: string, insuranceData: any): Promise<{ success: boolean; error?: string }> => {
-  try {
-    const { error } = await supabase
-      .from('carriers')
-      .update({
-        insurance_policies: insuranceData.policies,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('dot_number', dotNumber);
-
-    if (error) {
-      console.error('Supabase update error:', error);
-      return { success: false, error: error.message };
-    }
+export const fetchCarriersFromSupabase = async (filters: CarrierFilters = {}): Promise<any[]> =>
+  (await fetchCarrierPage(filters)).carriers;
 
-    return { success: true };
-  } catch (err: any) {
-    console.error('Exception updating Supabase:', err);
-    return { success: false, error: err.message };
+/**
+ * Fetch every carrier matching the filters, page by page, e.g. for a CSV export.
+ */
+export const fetchAllCarriers = async (filters: CarrierFilters = {}): Promise<any[]> => {
+  const all: any[] = [];
+  for (let offset = 0; ; offset += MAX_CARRIER_PAGE_SIZE) {
+    const page = await fetchCarrierPage({ ...filters, offset, limit: MAX_CARRIER_PAGE_SIZE });
+    all.push(...page.carriers);
+    if (page.carriers.length < MAX_CARRIER_PAGE_SIZE || all.length >= page.total) return all;
   }
 };
 
-export const updateCarrierSafety = async (dotNumber: string, safetyData: any): Promise<{ success: boolean; error?: string }> => {
+/**
+ * Add or remove a carrier from the watchlist; watchlisted carriers are re-verified first
+ */
+export const setCarrierWatchlisted = async (dotNumber: string, watchlisted: boolean): Promise<{ success: boolean; error?: string }> => {
   try {
     const { error } = await supabase
       .from('carriers')
-      .update({
-        safety_rating: safetyData.rating,
-        safety_rating_date: safetyData.ratingDate,
-        basic_scores: safetyData.basicScores,
-        oos_rates: safetyData.oosRates,
-        updated_at: new Date().toISOString(),
-      })
+      .update({ watchlisted })
       .eq('dot_number', dotNumber);
 
     if (error) {
-      console.error('Supabase safety update error:', error);
+      console.error('Supabase watchlist update error:', error);
       return { success: false, error: error.message };
     }
 
     return { success: true };
   } catch (err: any) {
-    console.error('Exception updating safety data:', err);
+    console.error('Exception updating watchlist:', err);
     return { success: false, error: err.message };
   }
 };
+
+/**
+ * Note that a carrier was opened, so the re-verification scheduler refreshes it sooner
+ */
+export const markCarrierViewed = async (dotNumber: string): Promise<void> => {
+  const { error } = await supabase
+    .from('carriers')
+    .update({ last_viewed_at: new Date().toISOString() })
+    .eq('dot_number', dotNumber);
+
+  if (error) console.warn('Could not record carrier view:', error.message);
+};
@@ -3,8 +3,8 @@
 
 CREATE TABLE IF NOT EXISTS carriers (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    mc_number TEXT NOT NULL UNIQUE,
-    dot_number TEXT NOT NULL,
+    mc_number TEXT UNIQUE,
+    dot_number TEXT NOT NULL UNIQUE,
     legal_name TEXT NOT NULL,
     dba_name TEXT,
     entity_type TEXT,
@@ -71,7 +71,7 @@ CREATE TRIGGER update_carriers_updated_at BEFORE UPDATE ON carriers
 
 -- Comments for documentation
 COMMENT ON TABLE carriers IS 'FMCSA carrier data with insurance and safety information';
-COMMENT ON COLUMN carriers.mc_number IS 'MC/MX Number - Unique identifier';
+COMMENT ON COLUMN carriers.mc_number IS 'MC/MX Number - unique when present; NULL for intrastate / DOT-only carriers';
 COMMENT ON COLUMN carriers.dot_number IS 'USDOT Number';
 COMMENT ON COLUMN carriers.insurance_policies IS 'JSON array of insurance policies';
 COMMENT ON COLUMN carriers.basic_scores IS 'JSON array of BASIC performance scores';
@@ -100,8 +100,8 @@ COMMENT ON COLUMN carriers.oos_rates IS 'JSON array of Out-of-Service rates';
 
 CREATE TABLE IF NOT EXISTS carriers (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    mc_number TEXT NOT NULL UNIQUE,
-    dot_number TEXT NOT NULL,
+    mc_number TEXT UNIQUE,
+    dot_number TEXT NOT NULL UNIQUE,
     legal_name TEXT NOT NULL,
     dba_name TEXT,
     entity_type TEXT,
@@ -168,7 +168,7 @@ CREATE TRIGGER update_carriers_updated_at BEFORE UPDATE ON carriers
 
 -- Comments for documentation
 COMMENT ON TABLE carriers IS 'FMCSA carrier data with insurance and safety information';
-COMMENT ON COLUMN carriers.mc_number IS 'MC/MX Number - Unique identifier';
+COMMENT ON COLUMN carriers.mc_number IS 'MC/MX Number - unique when present; NULL for intrastate / DOT-only carriers';
 COMMENT ON COLUMN carriers.dot_number IS 'USDOT Number';
 COMMENT ON COLUMN carriers.insurance_policies IS 'JSON array of insurance policies';
 COMMENT ON COLUMN carriers.basic_scores IS 'JSON array of BASIC performance scores';
@@ -271,3 +271,607 @@ COMMENT ON COLUMN users.is_blocked IS 'Whether the user is blocked from accessin
 
 
 
+
+--FMCSA register
+
+-- FMCSA Register entries scraped from li-public.fmcsa.dot.gov, one row per docket per register date
+CREATE TABLE IF NOT EXISTS fmcsa_register (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    number TEXT NOT NULL,
+    title TEXT NOT NULL,
+    decided TEXT,
+    category TEXT,
+    docket_prefix TEXT,
+    docket_number TEXT,
+    legal_name TEXT,
+    dba_name TEXT,
+    city TEXT,
+    state TEXT,
+    carrier_dot_number TEXT,
+    enrichment_status TEXT,
+    enriched_at TIMESTAMP WITH TIME ZONE,
+    date_fetched DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (number, date_fetched)
+);
+
+-- Structured title columns for databases created before they existed
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS docket_prefix TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS docket_number TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS legal_name TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS dba_name TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS city TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS state TEXT;
+
+-- Carrier enrichment columns for databases created before they existed
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS carrier_dot_number TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS enrichment_status TEXT;
+ALTER TABLE fmcsa_register ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill structured columns from "LEGAL NAME [D/B/A DBA] - CITY, ST" titles
+UPDATE fmcsa_register r SET
+    docket_prefix = substring(r.number from '^(MC|FF|MX)'),
+    docket_number = substring(r.number from '(\d+)$'),
+    legal_name = trim(regexp_replace(p.name_part, '\s+D/?B/?A\s+.*$', '', 'i')),
+    dba_name = nullif(trim(substring(p.name_part from '\s[Dd]/?[Bb]/?[Aa]\s+(.*)$')), ''),
+    city = trim(split_part(p.location, ',', 1)),
+    state = substring(p.location from ',\s*([A-Z]{2})(\s+\d{5}(-\d{4})?)?$')
+FROM (
+    SELECT id,
+           regexp_replace(title, '\s+-\s+[^-]*$', '') AS name_part,
+           substring(title from '\s-\s([^-]*,\s*[A-Z]{2}(\s+\d{5}(-\d{4})?)?)$') AS location
+    FROM fmcsa_register
+) p
+WHERE r.id = p.id AND r.docket_number IS NULL;
+
+-- Indexes for the register page filters and carrier linking
+CREATE INDEX IF NOT EXISTS idx_fmcsa_register_date_fetched ON fmcsa_register(date_fetched DESC);
+CREATE INDEX IF NOT EXISTS idx_fmcsa_register_category ON fmcsa_register(category);
+CREATE INDEX IF NOT EXISTS idx_fmcsa_register_state ON fmcsa_register(state);
+CREATE INDEX IF NOT EXISTS idx_fmcsa_register_docket_number ON fmcsa_register(docket_number);
+
+ALTER TABLE fmcsa_register ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for fmcsa_register" ON fmcsa_register
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+CREATE TRIGGER update_fmcsa_register_updated_at BEFORE UPDATE ON fmcsa_register
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE fmcsa_register IS 'Daily FMCSA Register decisions and notices';
+COMMENT ON COLUMN fmcsa_register.docket_prefix IS 'MC, FF or MX prefix of the docket number';
+COMMENT ON COLUMN fmcsa_register.docket_number IS 'Numeric part of the docket, joins to carriers.mc_number for MC dockets';
+COMMENT ON COLUMN fmcsa_register.carrier_dot_number IS 'USDOT number of the linked carrier, set by the grant enrichment job';
+COMMENT ON COLUMN fmcsa_register.enrichment_status IS 'linked, not_found or failed; NULL until the enrichment job has run';
+
+-- Per-day register fetch status, written by the backfill job and the "Fetch Live" save
+CREATE TABLE IF NOT EXISTS fmcsa_register_days (
+    register_date DATE PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('success', 'failed', 'empty')),
+    entry_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE fmcsa_register_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for fmcsa_register_days" ON fmcsa_register_days
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+CREATE TRIGGER update_fmcsa_register_days_updated_at BEFORE UPDATE ON fmcsa_register_days
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE fmcsa_register_days IS 'Register coverage calendar: one row per register date attempted';
+COMMENT ON COLUMN fmcsa_register_days.status IS 'success, failed, or empty (no register published that day)';
+
+--Carrier alerts
+
+-- Tracked carriers that appeared in the register under REVOCATION, DISMISSAL or WITHDRAWAL
+CREATE TABLE IF NOT EXISTS carrier_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    mc_number TEXT NOT NULL,
+    dot_number TEXT,
+    legal_name TEXT,
+    alert_type TEXT NOT NULL,
+    register_number TEXT NOT NULL,
+    register_title TEXT,
+    decided TEXT,
+    register_date DATE NOT NULL,
+    acknowledged BOOLEAN NOT NULL DEFAULT FALSE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (register_number, register_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_carrier_alerts_open ON carrier_alerts(acknowledged, register_date DESC);
+CREATE INDEX IF NOT EXISTS idx_carrier_alerts_mc_number ON carrier_alerts(mc_number);
+
+ALTER TABLE carrier_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for carrier_alerts" ON carrier_alerts
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+CREATE TRIGGER update_carrier_alerts_updated_at BEFORE UPDATE ON carrier_alerts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE carrier_alerts IS 'Register revocations, dismissals and withdrawals matched against carriers.mc_number';
+COMMENT ON COLUMN carrier_alerts.alert_type IS 'Register category that triggered the alert';
+
+--Scrape jobs
+
+-- Background Live Scraper runs, worked by the Express server
+CREATE TABLE IF NOT EXISTS scrape_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'cancelled', 'failed')),
+    config JSONB NOT NULL,
+    mc_numbers TEXT[],
+    retry_of UUID REFERENCES scrape_jobs(id) ON DELETE SET NULL,
+    import_summary JSONB,
+    max_results INTEGER,
+    next_index INTEGER NOT NULL DEFAULT 0,
+    processed_count INTEGER NOT NULL DEFAULT 0,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    saved_count INTEGER NOT NULL DEFAULT 0,
+    filtered_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per MC number attempted by a job; the identity id doubles as a polling cursor
+CREATE TABLE IF NOT EXISTS scrape_job_results (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+    mc_number TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('success', 'filtered', 'not_found', 'failed')),
+    saved BOOLEAN NOT NULL DEFAULT FALSE,
+    dot_number TEXT,
+    legal_name TEXT,
+    carrier JSONB,
+    error TEXT,
+    failure_reason TEXT CHECK (failure_reason IN ('not_found', 'blocked', 'timeout', 'server_error', 'network', 'circuit_open')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (job_id, mc_number)
+);
+
+-- Columns added after scrape jobs were first created
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS mc_numbers TEXT[];
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES scrape_jobs(id) ON DELETE SET NULL;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS import_summary JSONB;
+ALTER TABLE scrape_job_results ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_status ON scrape_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_created_at ON scrape_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scrape_job_results_job_id ON scrape_job_results(job_id, id);
+
+ALTER TABLE scrape_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scrape_job_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for scrape_jobs" ON scrape_jobs
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Enable all access for scrape_job_results" ON scrape_job_results
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+CREATE TRIGGER update_scrape_jobs_updated_at BEFORE UPDATE ON scrape_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE scrape_jobs IS 'Server-side Live Scraper jobs over an MC range';
+COMMENT ON COLUMN scrape_jobs.name IS 'Checkpoint name shown in the Live Scraper; defaults to the MC range';
+COMMENT ON COLUMN scrape_jobs.mc_numbers IS 'Explicit targets scraped instead of the config.startPoint range (list import or retry of failed MCs); USDOT numbers are stored as DOT<number>';
+COMMENT ON COLUMN scrape_jobs.import_summary IS 'Counts from an uploaded MC/USDOT list: submitted, invalid, duplicates, fresh (skipped) and queued';
+COMMENT ON COLUMN scrape_jobs.retry_of IS 'Job whose failed MCs this job retries';
+COMMENT ON COLUMN scrape_jobs.next_index IS 'Offset into mc_numbers (or from config.startPoint) of the next MC to scrape; resume point after a pause or restart';
+COMMENT ON COLUMN scrape_jobs.max_results IS 'Stop once this many carriers matched, taken from the user''s remaining daily limit';
+COMMENT ON TABLE scrape_job_results IS 'Per-MC outcome of a scrape job';
+COMMENT ON COLUMN scrape_job_results.failure_reason IS 'Why a not_found or failed MC failed: not_found, blocked (403/429), timeout, server_error (5xx), network or circuit_open';
+COMMENT ON COLUMN scrape_job_results.mc_number IS 'MC number scraped, or DOT<number> for a USDOT target from a list import';
+
+--Carriers without MC numbers
+
+-- Intrastate and DOT-only carriers have no MC docket, so carriers are keyed by USDOT number.
+ALTER TABLE carriers ALTER COLUMN mc_number DROP NOT NULL;
+
+-- Keep only the most recently updated row per dot_number so the unique index can be built
+DELETE FROM carriers older
+USING carriers newer
+WHERE older.dot_number = newer.dot_number
+  AND (COALESCE(newer.updated_at, newer.created_at), newer.id) > (COALESCE(older.updated_at, older.created_at), older.id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_carriers_dot_number_unique ON carriers(dot_number);
+
+COMMENT ON COLUMN carriers.dot_number IS 'USDOT Number - unique; the upsert key for scraped carriers';
+
+--Proxy pool
+
+-- Outbound proxies the Express server rotates through, alongside any PROXY_URLS from env
+CREATE TABLE IF NOT EXISTS proxies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    url TEXT NOT NULL UNIQUE,
+    label TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    healthy BOOLEAN NOT NULL DEFAULT TRUE,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proxies_enabled ON proxies(enabled);
+
+-- Proxy URLs can hold credentials: no policies, so only the server's service-role key can read them
+ALTER TABLE proxies ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_proxies_updated_at BEFORE UPDATE ON proxies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE proxies IS 'Server-side proxy pool for outbound FMCSA / SearchCarriers requests';
+COMMENT ON COLUMN proxies.url IS 'http://, https://, socks4:// or socks5:// proxy URL, optionally with user:pass@';
+COMMENT ON COLUMN proxies.healthy IS 'Result of the last health check or of repeated request failures; unhealthy proxies are skipped';
+
+--Response cache
+
+-- Optional persistent store for the server's SAFER / SMS / insurance lookup cache (RESPONSE_CACHE_PERSIST=true)
+CREATE TABLE IF NOT EXISTS response_cache (
+    source TEXT NOT NULL CHECK (source IN ('safer', 'sms', 'insurance')),
+    cache_key TEXT NOT NULL,
+    payload JSONB,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (source, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires_at ON response_cache(expires_at);
+
+-- Written and read only by the server's service-role key
+ALTER TABLE response_cache ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE response_cache IS 'Cached upstream lookups keyed by source and identifier; expired rows are pruned hourly';
+COMMENT ON COLUMN response_cache.cache_key IS 'Identifier within the source, e.g. MC_MX:123456 or USDOT:98765 (safer), profile:98765 or registration:98765 (sms), 98765 (insurance)';
+COMMENT ON COLUMN response_cache.payload IS 'Parsed lookup result; null records a "no such carrier" answer';
+
+--Carrier change history
+
+-- One row per insert or change of a carrier, written by a trigger so every save path is covered
+CREATE TABLE IF NOT EXISTS carrier_snapshots (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    carrier_id UUID NOT NULL REFERENCES carriers(id) ON DELETE CASCADE,
+    dot_number TEXT NOT NULL,
+    mc_number TEXT,
+    change_type TEXT NOT NULL CHECK (change_type IN ('created', 'updated')),
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    snapshot JSONB NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_carrier_snapshots_dot_number ON carrier_snapshots(dot_number, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_carrier_snapshots_carrier_id ON carrier_snapshots(carrier_id);
+
+ALTER TABLE carrier_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for carrier_snapshots" ON carrier_snapshots
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+-- Diff the tracked columns of a carrier row and record what changed
+CREATE OR REPLACE FUNCTION record_carrier_snapshot()
+RETURNS TRIGGER AS $$
+DECLARE
+    tracked TEXT[] := ARRAY[
+        'legal_name', 'dba_name', 'entity_type', 'status', 'email', 'phone',
+        'power_units', 'drivers', 'physical_address', 'mailing_address',
+        'mcs150_date', 'out_of_service_date', 'safety_rating'
+    ];
+    field TEXT;
+    new_row JSONB := to_jsonb(NEW);
+    old_row JSONB;
+    diff JSONB := '{}'::jsonb;
+    snap JSONB := '{}'::jsonb;
+BEGIN
+    FOREACH field IN ARRAY tracked LOOP
+        snap := snap || jsonb_build_object(field, new_row -> field);
+    END LOOP;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO carrier_snapshots (carrier_id, dot_number, mc_number, change_type, snapshot)
+        VALUES (NEW.id, NEW.dot_number, NEW.mc_number, 'created', snap);
+        RETURN NEW;
+    END IF;
+
+    old_row := to_jsonb(OLD);
+    FOREACH field IN ARRAY tracked LOOP
+        IF (old_row -> field) IS DISTINCT FROM (new_row -> field) THEN
+            diff := diff || jsonb_build_object(field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field));
+        END IF;
+    END LOOP;
+
+    -- Re-scrapes that change nothing tracked leave no history
+    IF diff <> '{}'::jsonb THEN
+        INSERT INTO carrier_snapshots (carrier_id, dot_number, mc_number, change_type, changes, snapshot)
+        VALUES (NEW.id, NEW.dot_number, NEW.mc_number, 'updated', diff, snap);
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER record_carrier_snapshot AFTER INSERT OR UPDATE ON carriers
+    FOR EACH ROW EXECUTE FUNCTION record_carrier_snapshot();
+
+COMMENT ON TABLE carrier_snapshots IS 'Change history of carriers: status, contact, address, fleet size and safety rating over time';
+COMMENT ON COLUMN carrier_snapshots.changes IS 'Changed columns as {"column": {"from": old, "to": new}}; empty for the first snapshot';
+COMMENT ON COLUMN carrier_snapshots.snapshot IS 'Tracked columns as they were after this change';
+
+--Carrier re-verification
+
+-- Watchlist, recent views and the outcome of the server's scheduled re-scrapes
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS watchlisted BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS last_verified_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS verification_status TEXT
+    CHECK (verification_status IN ('verified', 'partial', 'not_found', 'failed'));
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS verification_error TEXT;
+
+-- Existing rows count as verified when they were last saved; the default only applies to new rows
+UPDATE carriers SET last_verified_at = COALESCE(updated_at, created_at) WHERE last_verified_at IS NULL;
+ALTER TABLE carriers ALTER COLUMN last_verified_at SET DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_carriers_last_verified_at ON carriers(last_verified_at);
+CREATE INDEX IF NOT EXISTS idx_carriers_watchlisted ON carriers(last_verified_at) WHERE watchlisted;
+CREATE INDEX IF NOT EXISTS idx_carriers_last_viewed_at ON carriers(last_viewed_at DESC) WHERE last_viewed_at IS NOT NULL;
+
+COMMENT ON COLUMN carriers.watchlisted IS 'Re-verified ahead of other stale carriers';
+COMMENT ON COLUMN carriers.last_viewed_at IS 'Last time the carrier was opened in Carrier Search; recent views are re-verified sooner';
+COMMENT ON COLUMN carriers.last_verified_at IS 'Last scrape or scheduled re-verification attempt';
+COMMENT ON COLUMN carriers.verification_status IS 'Outcome of the last re-verification: verified, partial (insurance or safety failed), not_found or failed';
+
+--Typed carrier columns
+
+-- Integer and date copies of SAFER's text fields, so range filters compare numbers and dates.
+-- The save paths fill them (services/carrierFields.ts); the text columns stay as scraped.
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS power_units_count INTEGER;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS drivers_count INTEGER;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS mcs150_form_date DATE;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS scraped_date DATE;
+
+-- Same rules as parseCount: digits only, blank or "N/A" is NULL
+CREATE OR REPLACE FUNCTION parse_carrier_count(value TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    digits TEXT := regexp_replace(COALESCE(value, ''), '[^0-9]', '', 'g');
+BEGIN
+    IF digits = '' OR length(digits) > 9 THEN
+        RETURN NULL;
+    END IF;
+    RETURN digits::INTEGER;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Same rules as parseUsDate: MM/DD/YYYY or YYYY-MM-DD, anything else (or an impossible date) is NULL
+CREATE OR REPLACE FUNCTION parse_carrier_date(value TEXT)
+RETURNS DATE AS $$
+DECLARE
+    text_value TEXT := btrim(COALESCE(value, ''));
+BEGIN
+    IF text_value ~ '^\d{1,2}/\d{1,2}/\d{4}$' THEN
+        RETURN to_date(text_value, 'MM/DD/YYYY');
+    ELSIF text_value ~ '^\d{4}-\d{2}-\d{2}' THEN
+        RETURN substring(text_value from 1 for 10)::DATE;
+    END IF;
+    RETURN NULL;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Parse existing rows
+UPDATE carriers SET
+    power_units_count = parse_carrier_count(power_units),
+    drivers_count = parse_carrier_count(drivers),
+    mcs150_form_date = parse_carrier_date(mcs150_date),
+    scraped_date = parse_carrier_date(date_scraped)
+WHERE power_units_count IS NULL
+   OR drivers_count IS NULL
+   OR mcs150_form_date IS NULL
+   OR scraped_date IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_carriers_power_units_count ON carriers(power_units_count);
+CREATE INDEX IF NOT EXISTS idx_carriers_drivers_count ON carriers(drivers_count);
+CREATE INDEX IF NOT EXISTS idx_carriers_mcs150_form_date ON carriers(mcs150_form_date);
+
+COMMENT ON COLUMN carriers.power_units_count IS 'power_units as an integer, for range filters';
+COMMENT ON COLUMN carriers.drivers_count IS 'drivers as an integer, for range filters';
+COMMENT ON COLUMN carriers.mcs150_form_date IS 'mcs150_date as a DATE; years-in-business filters run against it';
+COMMENT ON COLUMN carriers.scraped_date IS 'date_scraped as a DATE';
+
+--Carrier safety counts
+
+-- SAFER's US inspection and crash totals for the 24 months before the snapshot, and the
+-- vehicle/driver/hazmat out-of-service percentages, so the safety filters query numbers.
+-- The save paths fill them (services/carrierFields.ts); SMS OOS rates fill the percentages too.
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS inspections_24mo INTEGER;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS vehicle_oos_pct NUMERIC(5,1);
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS driver_oos_pct NUMERIC(5,1);
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS hazmat_oos_pct NUMERIC(5,1);
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS crashes_24mo INTEGER;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS fatal_crashes_24mo INTEGER;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS injury_crashes_24mo INTEGER;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS towaway_crashes_24mo INTEGER;
+-- GREATEST skips NULLs, so a carrier without hazmat inspections is rated on the other two
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS max_oos_pct NUMERIC(5,1)
+    GENERATED ALWAYS AS (GREATEST(vehicle_oos_pct, driver_oos_pct, hazmat_oos_pct)) STORED;
+
+-- Same rules as oosPercentColumns: the first OOS rate whose type mentions `kind`, e.g. "5.2%"
+CREATE OR REPLACE FUNCTION oos_rate_pct(rates JSONB, kind TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+    rate_text TEXT;
+BEGIN
+    IF rates IS NULL OR jsonb_typeof(rates) <> 'array' THEN
+        RETURN NULL;
+    END IF;
+    SELECT substring(replace(r->>'rate', ',', '') from '[0-9]+(\.[0-9]+)?')
+    INTO rate_text
+    FROM jsonb_array_elements(rates) r
+    WHERE r->>'type' ILIKE '%' || kind || '%'
+    LIMIT 1;
+    RETURN rate_text::NUMERIC;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Existing rows only have SMS OOS rates; counts fill in as carriers are re-scraped or re-verified
+UPDATE carriers SET
+    vehicle_oos_pct = oos_rate_pct(oos_rates, 'vehicle'),
+    driver_oos_pct = oos_rate_pct(oos_rates, 'driver'),
+    hazmat_oos_pct = oos_rate_pct(oos_rates, 'hazmat')
+WHERE oos_rates IS NOT NULL
+  AND vehicle_oos_pct IS NULL
+  AND driver_oos_pct IS NULL
+  AND hazmat_oos_pct IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_carriers_max_oos_pct ON carriers(max_oos_pct);
+CREATE INDEX IF NOT EXISTS idx_carriers_inspections_24mo ON carriers(inspections_24mo);
+CREATE INDEX IF NOT EXISTS idx_carriers_crashes_24mo ON carriers(crashes_24mo);
+
+COMMENT ON COLUMN carriers.inspections_24mo IS 'US inspections in the 24 months before the SAFER snapshot';
+COMMENT ON COLUMN carriers.vehicle_oos_pct IS 'Share of vehicle inspections that ended out of service, in percent';
+COMMENT ON COLUMN carriers.driver_oos_pct IS 'Share of driver inspections that ended out of service, in percent';
+COMMENT ON COLUMN carriers.hazmat_oos_pct IS 'Share of hazmat inspections that ended out of service, in percent';
+COMMENT ON COLUMN carriers.max_oos_pct IS 'Worst of the vehicle, driver and hazmat OOS percentages; the OOS filter runs against it';
+COMMENT ON COLUMN carriers.crashes_24mo IS 'US crashes in the 24 months before the SAFER snapshot';
+COMMENT ON COLUMN carriers.fatal_crashes_24mo IS 'Crashes with a fatality, 24 months';
+COMMENT ON COLUMN carriers.injury_crashes_24mo IS 'Crashes with an injury, 24 months';
+COMMENT ON COLUMN carriers.towaway_crashes_24mo IS 'Crashes with a vehicle towed away, 24 months';
+
+--Carrier insurance columns
+
+-- Filing types on file and the BI&PD limit, parsed from insurance_policies so the insurance
+-- filters check policy contents. NULL until insurance is scraped for the carrier.
+-- The save paths fill them (insuranceColumns in services/carrierFields.ts).
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS bipd_on_file BOOLEAN;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS cargo_on_file BOOLEAN;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS bond_on_file BOOLEAN;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS bipd_coverage INTEGER;
+
+-- Parse existing rows; coverage amounts are stored as "$750,000" or "N/A"
+UPDATE carriers SET
+    bipd_on_file = insurance_policies @> '[{"type": "BI&PD"}]',
+    cargo_on_file = insurance_policies @> '[{"type": "CARGO"}]',
+    bond_on_file = insurance_policies @> '[{"type": "BOND"}]',
+    bipd_coverage = (
+        SELECT MAX(parse_carrier_count(p->>'coverageAmount'))
+        FROM jsonb_array_elements(insurance_policies) p
+        WHERE p->>'type' = 'BI&PD'
+    )
+WHERE insurance_policies IS NOT NULL
+  AND jsonb_typeof(insurance_policies) = 'array'
+  AND bipd_on_file IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_carriers_bipd_coverage ON carriers(bipd_coverage);
+
+COMMENT ON COLUMN carriers.bipd_on_file IS 'A BI&PD filing is listed in insurance_policies; NULL when insurance was never scraped';
+COMMENT ON COLUMN carriers.cargo_on_file IS 'A cargo filing is listed in insurance_policies; NULL when insurance was never scraped';
+COMMENT ON COLUMN carriers.bond_on_file IS 'A bond filing is listed in insurance_policies; NULL when insurance was never scraped';
+COMMENT ON COLUMN carriers.bipd_coverage IS 'Highest BI&PD limit on file, in dollars (an excess layer''s limit includes the primary)';
+
+--Carrier BOC-3 and company reps
+
+-- From the FMCSA L&I carrier detail page, looked up with each SAFER scrape (server/liScraper.ts).
+-- NULL means L&I wasn't checked (or has no record), so "No" filters only match checked carriers.
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS boc3_on_file BOOLEAN;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS boc3_agent TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS company_reps TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_carriers_boc3_on_file ON carriers(boc3_on_file);
+
+COMMENT ON COLUMN carriers.boc3_on_file IS 'L&I lists a BOC-3 process-agent filing; NULL when L&I was not checked';
+COMMENT ON COLUMN carriers.boc3_agent IS 'Blanket process-agent company named on the BOC-3, if any';
+COMMENT ON COLUMN carriers.company_reps IS 'Company officer / representative names listed in L&I; empty when none are listed';
+
+-- L&I lookups share the response cache
+ALTER TABLE response_cache DROP CONSTRAINT IF EXISTS response_cache_source_check;
+ALTER TABLE response_cache ADD CONSTRAINT response_cache_source_check
+    CHECK (source IN ('safer', 'sms', 'insurance', 'li'));
+
+--Carrier address columns
+
+-- Street, city, state and ZIP split out of physical_address and mailing_address, so the
+-- location filters use columns instead of matching text. The save paths fill them
+-- (parseAddress in services/carrierFields.ts); the address text stays as scraped.
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS physical_street TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS physical_city TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS physical_state TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS physical_zip TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS mailing_street TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS mailing_city TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS mailing_state TEXT;
+ALTER TABLE carriers ADD COLUMN IF NOT EXISTS mailing_zip TEXT;
+
+-- Same rules as parseAddress: {street, city, state, zip}, all NULL unless the address ends in
+-- ", ST ZIP". Addresses without a comma between street and city get a NULL city.
+CREATE OR REPLACE FUNCTION parse_carrier_address(value TEXT)
+RETURNS TEXT[] AS $$
+DECLARE
+    text_value TEXT := btrim(regexp_replace(COALESCE(value, ''), '\s+', ' ', 'g'));
+    parts TEXT[];
+    head TEXT;
+BEGIN
+    parts := regexp_match(text_value, '^(.*),\s*([A-Za-z]{2})\s+([A-Za-z0-9][A-Za-z0-9 -]*)$');
+    IF parts IS NULL THEN
+        RETURN ARRAY[NULL, NULL, NULL, NULL]::TEXT[];
+    END IF;
+
+    head := btrim(parts[1]);
+    IF position(',' in head) > 0 THEN
+        RETURN ARRAY[
+            NULLIF(btrim(substring(head from '^(.*),[^,]*$')), ''),
+            NULLIF(btrim(substring(head from ',([^,]*)$')), ''),
+            upper(parts[2]),
+            upper(btrim(parts[3]))
+        ];
+    END IF;
+    RETURN ARRAY[NULLIF(head, ''), NULL, upper(parts[2]), upper(btrim(parts[3]))];
+END;
+$$ language 'plpgsql' IMMUTABLE;
+
+-- Parse existing rows
+UPDATE carriers SET
+    physical_street = (parse_carrier_address(physical_address))[1],
+    physical_city = (parse_carrier_address(physical_address))[2],
+    physical_state = (parse_carrier_address(physical_address))[3],
+    physical_zip = (parse_carrier_address(physical_address))[4],
+    mailing_street = (parse_carrier_address(mailing_address))[1],
+    mailing_city = (parse_carrier_address(mailing_address))[2],
+    mailing_state = (parse_carrier_address(mailing_address))[3],
+    mailing_zip = (parse_carrier_address(mailing_address))[4]
+WHERE physical_state IS NULL
+  AND (physical_address IS NOT NULL OR mailing_address IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_carriers_physical_state ON carriers(physical_state);
+CREATE INDEX IF NOT EXISTS idx_carriers_physical_zip ON carriers(physical_zip text_pattern_ops);
+
+COMMENT ON COLUMN carriers.physical_state IS 'Two-letter state or province from physical_address; the state filter runs against it';
+COMMENT ON COLUMN carriers.physical_city IS 'City from physical_address; NULL for addresses scraped before street and city were comma-separated';
+COMMENT ON COLUMN carriers.physical_zip IS 'ZIP or postal code from physical_address; the ZIP filter matches it by prefix';
@@ -19,8 +19,27 @@ export interface OosRate {
   nationalAvg: string;
 }
 
+// BOC-3 and officer details from the FMCSA L&I carrier detail page
+export interface LiCarrierDetails {
+  boc3OnFile: boolean | null;  // null when L&I doesn't say
+  boc3Agent: string;           // blanket process-agent company, if any
+  companyReps: string[];
+}
+
+// US inspection and crash totals for the 24 months before the SAFER snapshot
+export interface SafetySummary {
+  inspections: number | null;
+  vehicleOosPct: number | null;  // share of vehicle inspections that ended out of service
+  driverOosPct: number | null;
+  hazmatOosPct: number | null;
+  crashes: number | null;
+  fatalCrashes: number | null;
+  injuryCrashes: number | null;
+  towawayCrashes: number | null;
+}
+
 export interface CarrierData {
-  mcNumber: string;
+  mcNumber: string;            // empty for intrastate / DOT-only carriers
   dotNumber: string;
   legalName: string;
   dbaName: string;
@@ -49,6 +68,25 @@ export interface CarrierData {
   safetyRatingDate?: string;
   basicScores?: BasicScore[];
   oosRates?: OosRate[];
+  safetySummary?: SafetySummary;
+  // L&I (undefined / null when not looked up)
+  boc3OnFile?: boolean | null;
+  boc3Agent?: string;
+  companyReps?: string[] | null;
+  // Re-verification
+  watchlisted?: boolean;
+  lastVerifiedAt?: string | null;
+  verificationStatus?: VerificationStatus | null;
+}
+
+// Outcome of the server's last scheduled re-scrape of a carrier
+export type VerificationStatus = 'verified' | 'partial' | 'not_found' | 'failed';
+
+// One row of a SAFER legal-name search; open it by USDOT number
+export interface CarrierSearchHit {
+  dotNumber: string;
+  legalName: string;
+  location: string;
 }
 
 export interface ScraperConfig {
@@ -57,8 +95,119 @@ export interface ScraperConfig {
   includeCarriers: boolean;
   includeBrokers: boolean;
   onlyAuthorized: boolean;
-  useMockData: boolean;
   useProxy: boolean;
+  identifiers?: string[];      // uploaded MC/USDOT list; replaces the startPoint range when set
+  skipFreshDays?: number;      // skip listed carriers scraped or re-verified within this many days
+}
+
+export interface ListImportSummary {
+  submitted: number;
+  invalid: number;
+  duplicates: number;
+  fresh: number;               // already in the carriers table and recently scraped
+  queued: number;
+}
+
+export type ScrapeJobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface ScrapeJob {
+  id: string;
+  name: string;                // checkpoint name shown in the Live Scraper
+  status: ScrapeJobStatus;
+  config: ScraperConfig;
+  mcNumbers: string[] | null;  // explicit targets (list import or failed-MC retry) instead of the config range; USDOT targets are "DOT<number>"
+  retryOf: string | null;      // job whose failed MCs this job retries
+  total: number;               // MCs this job covers
+  maxResults: number | null;   // stop after this many matches (daily allowance)
+  nextIndex: number;           // offset into the MC list/range to resume from
+  lastProcessedMc: string | null;
+  importSummary: ListImportSummary | null;
+  processedCount: number;
+  successCount: number;
+  savedCount: number;
+  filteredCount: number;
+  failedCount: number;
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+// Insurance + safety enrichment run, worked by the Express server
+export interface InsuranceJob {
+  id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  stage: 'INSURANCE' | 'SAFETY' | 'IDLE';
+  total: number;
+  insProcessed: number;
+  insFound: number;
+  insFailed: number;
+  safetyProcessed: number;
+  safetyFound: number;
+  safetyFailed: number;
+  dbSaved: number;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export type JobEventType =
+  | 'job_status'     // job counters/status changed, data is the job
+  | 'attempt'        // an MC/DOT is being queried
+  | 'success'
+  | 'filtered'       // found but excluded by the job's filters
+  | 'not_found'
+  | 'failed'
+  | 'db_save'        // data.saved tells whether the Supabase write went through
+  | 'rate_limited';  // upstream answered 429/403
+
+export interface JobEvent {
+  id: number;        // per-job sequence, also the SSE event id
+  jobId: string;
+  type: JobEventType;
+  at: string;
+  mcNumber?: string;
+  dotNumber?: string;
+  stage?: string;
+  message?: string;
+  data?: any;
+}
+
+export type ScrapeResultStatus = 'success' | 'filtered' | 'not_found' | 'failed';
+
+export type ProxyProtocol = 'http' | 'https' | 'socks4' | 'socks5';
+
+// A server proxy as shown in the Admin Panel; credentials are never included
+export interface ProxyStatus {
+  id: string;
+  label: string;
+  protocol: ProxyProtocol;
+  source: 'env' | 'table';     // PROXY_URLS or the proxies table
+  healthy: boolean;
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastUsedAt: string | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+}
+
+// Why an outbound FMCSA / SearchCarriers request failed
+export type OutboundFailureKind = 'not_found' | 'blocked' | 'timeout' | 'server_error' | 'network' | 'circuit_open';
+
+// Upstreams whose lookups the server caches, each with its own TTL
+export type CacheSource = 'safer' | 'sms' | 'insurance' | 'li';
+
+export interface ScrapeJobResult {
+  id: number;
+  jobId: string;
+  mcNumber: string;
+  status: ScrapeResultStatus;
+  saved: boolean;
+  carrier: CarrierData | null;
+  error: string | null;
+  failureReason: OutboundFailureKind | null;
+  createdAt: string;
 }
 
 export interface SubscriptionPlan {
@@ -91,11 +240,20 @@ export interface BlockedIP {
   reason: string;
 }
 
-export type ViewState = 'dashboard' | 'scraper' | 'carrier-search' | 'insurance-scraper' | 'subscription' | 'settings' | 'admin' | 'fmcsa-register';
+export type ViewState = 'dashboard' | 'scraper' | 'carrier-search' | 'insurance-scraper' | 'subscription' | 'settings' | 'admin' | 'fmcsa-register' | 'carrier-alerts';
 
 export interface FMCSARegisterEntry {
   number: string;
   title: string;
   decided: string;
   category: string;
+  // Parsed from number/title
+  docketPrefix?: string;
+  docketNumber?: string;
+  legalName?: string;
+  dbaName?: string;
+  city?: string;
+  state?: string;
+  // Set once the grant has been linked to a carrier record
+  carrierDotNumber?: string;
 }